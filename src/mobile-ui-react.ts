@@ -5,6 +5,8 @@
 // this file will contain all the exports for this "package"
 export * from "./mobile-ui-react/MobileUi";
 export * from "./mobile-ui-react/MobileUiContent";
+export * from "./mobile-ui-react/KeyboardTracker";
+export * from "./mobile-ui-react/NavigationStack";
 // NOTE: ScrollableWithFades must precede anything using fadeClassName, so it is being put near the top.
 export * from "./mobile-ui-react/ScrollableWithFades";
 // NOTE: NavigationPanel MUST precede anything that might use its className property.
@@ -12,18 +14,29 @@ export * from "./mobile-ui-react/NavigationPanel";
 export * from "./mobile-ui-react/IconImage";
 export * from "./mobile-ui-react/VisibleBackButton";
 export * from "./mobile-ui-react/ActionSheetButton";
+export * from "./mobile-ui-react/WebActionSheet";
+export * from "./mobile-ui-react/PanelRouting";
 export * from "./mobile-ui-react/TabBar";
 export * from "./mobile-ui-react/CircularButton";
 export * from "./mobile-ui-react/ResizablePanel";
+export * from "./mobile-ui-react/ResizableSidePanel";
 export * from "./mobile-ui-react/PanelHeader";
 export * from "./mobile-ui-react/PanViewport";
 export * from "./mobile-ui-react/RotateViewport";
+export * from "./mobile-ui-react/MobileViewCube";
 export * from "./mobile-ui-react/BottomPanel";
+export * from "./mobile-ui-react/OcclusionManager";
+export * from "./mobile-ui-react/ZoomToVisibleArea";
+export * from "./mobile-ui-react/ViewportContextMenu";
 export * from "./mobile-ui-react/TileGrid";
 export * from "./mobile-ui-react/CenterDiv";
 export * from "./mobile-ui-react/Suggestion";
 export * from "./mobile-ui-react/CountNotification";
+export * from "./mobile-ui-react/SelectionToolbar";
 export * from "./mobile-ui-react/AcceptButton";
 export * from "./mobile-ui-react/HorizontalPicker";
 export * from "./mobile-ui-react/ModalEntryFormDialog";
+export * from "./mobile-ui-react/ModalEntryFormSchema";
+export * from "./mobile-ui-react/ModalProgressDialog";
+export * from "./mobile-ui-react/Toast";
 export * from "./mobile-ui-react/TabStrip";
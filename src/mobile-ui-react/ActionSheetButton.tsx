@@ -4,8 +4,9 @@
 *--------------------------------------------------------------------------------------------*/
 import * as React from "react";
 import { CommonProps, IconSpec } from "@itwin/core-react";
-import { ActionSheetProps, presentActionSheet } from "@itwin/mobile-sdk-core";
+import { ActionSheetProps } from "@itwin/mobile-sdk-core";
 import { NavigationButton } from "./NavigationPanel";
+import { ActionSheetConfig, ActionSheetPresentation, presentMobileUiActionSheet, WebActionSheet } from "./WebActionSheet";
 
 /**
  * Properties for {@link ActionSheetButton}
@@ -30,13 +31,15 @@ export interface ActionSheetButtonProps extends ActionSheetProps, CommonProps {
    * It is your choice whether to use this or the onSelected field of each `AlertAction`.
    */
   onSelected?: (action: string | undefined) => void;
+  /** How the action sheet is presented, default {@link ActionSheetConfig.presentation}. */
+  presentation?: ActionSheetPresentation;
 }
 
 /**
  * Navigation button that shows an Action Sheet when pressed.
  *
- * Note: The action sheet functionality can be used from a different React component by utilizing {@link presentActionSheet}
- * in mobile-sdk-core.
+ * Note: The action sheet functionality can be used from a different React component by utilizing
+ * {@link presentMobileUiActionSheet}, or `presentActionSheet` in mobile-sdk-core for the native UI only.
  * @public
  */
 export function ActionSheetButton(props: ActionSheetButtonProps) {
@@ -62,13 +65,14 @@ export function ActionSheetButton(props: ActionSheetButtonProps) {
 
 /**
  * Act as though an {@link ActionSheetButton} with the given props had been clicked. This will show
- * an action sheet using the native UI and call `props.onSelected` with the user's selection.
+ * an action sheet using the native UI or {@link WebActionSheet} (see {@link ActionSheetButtonProps.presentation}) and
+ * call `props.onSelected` with the user's selection.
  * @param props The {@link ActionSheetButtonProps} to use to show the action sheet.
  * @param source The mouse event that triggered the click (whose target's rectangle will be used
  * for the action sheet), or the DOM rectangle of the source component that wants to show the action
  * sheet.
  */
 ActionSheetButton.onClick = async (props: ActionSheetButtonProps, source: React.MouseEvent | DOMRect) => {
-  const result = await presentActionSheet(props, "currentTarget" in source ? source.currentTarget.getBoundingClientRect() : source);
+  const result = await presentMobileUiActionSheet(props, "currentTarget" in source ? source.currentTarget.getBoundingClientRect() : source, props.presentation);
   props.onSelected?.(result);
 };
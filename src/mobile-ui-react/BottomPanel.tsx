@@ -6,21 +6,61 @@ import * as React from "react";
 import classnames from "classnames";
 import { BeUiEvent } from "@itwin/core-bentley";
 import { CommonProps, getCssVariableAsNumber } from "@itwin/core-react";
-import { Optional } from "@itwin/mobile-sdk-core";
-import { makeRefHandler, MutableHtmlDivRefOrFunction, useBeUiEvent, useWindowEvent } from "./MobileUi";
+import { getCssVariable, Optional } from "@itwin/mobile-sdk-core";
+import { makeRefHandler, MutableHtmlDivRefOrFunction, useBeUiEvent, useMediaQuery, useWindowEvent } from "./MobileUi";
 import { PanelHeader, PanelHeaderProps } from "./PanelHeader";
 import { ResizablePanel, ResizablePanelProps } from "./ResizablePanel";
+import { ResizableSidePanel } from "./ResizableSidePanel";
 import "./BottomPanel.scss";
 
+/**
+ * Where a bottom panel is placed on the screen. Panels with "left" or "right" placement are displayed as side sheets.
+ * @public
+ */
+export type BottomPanelPlacement = "bottom" | "left" | "right";
+
+/**
+ * Gets the default media query used by {@link useBottomPanelPlacement} to decide when to display side sheets. This
+ * matches screens wider than the small screen size breakpoint used by the stylesheets, which is read from the
+ * `--mui-max-small-screen-size` CSS variable.
+ * @returns The media query, which never matches if the Mobile UI stylesheets have not been loaded.
+ * @public
+ */
+export function getSideSheetMediaQuery() {
+  const maxSmallScreenSize = getCssVariable("--mui-max-small-screen-size");
+  return maxSmallScreenSize ? `not all and (max-width: ${maxSmallScreenSize})` : "not all";
+}
+
 /**
  * Type for arguments sent to {@link BottomPanelEvents.onResize}.
  * @public
  */
 export interface BottomPanelResizeArgs {
+  /** The HTMLDivElement for the panel being resized */
+  div?: HTMLDivElement | null;
   /** The height of the panel */
   currentHeight: number;
   /** The location of the new top of the panel */
   top: number;
+  /** The name of the active detent, if the panel has detents. */
+  detent?: string;
+  /** The placement of the panel, default "bottom" */
+  placement?: BottomPanelPlacement;
+  /** The screen rectangle covered by the panel, if known */
+  occludedRect?: DOMRect;
+  /** App-specific data attached to the associated bottom panel. */
+  appData: any;
+}
+
+/**
+ * Type for arguments sent to {@link BottomPanelEvents.onDetentChanged}.
+ * @public
+ */
+export interface BottomPanelDetentArgs {
+  /** The name of the new active detent */
+  detent: string;
+  /** The height of the panel at the detent */
+  height: number;
   /** App-specific data attached to the associated bottom panel. */
   appData: any;
 }
@@ -30,8 +70,14 @@ export interface BottomPanelResizeArgs {
  * @public
  */
 export interface BottomPanelResizingArgs {
+  /** The HTMLDivElement for the panel being resized */
+  div?: HTMLDivElement | null;
   /** The new location of the top of the panel */
   top: number;
+  /** The placement of the panel, default "bottom" */
+  placement?: BottomPanelPlacement;
+  /** The screen rectangle covered by the panel, if known */
+  occludedRect?: DOMRect;
   /** App-specific data attached to the associated bottom panel. */
   appData: any;
 }
@@ -47,6 +93,10 @@ export interface BottomPanelOpenCloseArgs {
   height: number;
   /** The top of the open panel */
   top: number;
+  /** The placement of the panel, default "bottom" */
+  placement?: BottomPanelPlacement;
+  /** The screen rectangle covered by the open panel, if known */
+  occludedRect?: DOMRect;
   /** App-specific data attached to the associated bottom panel. */
   appData: any;
 }
@@ -64,18 +114,23 @@ export class BottomPanelEvents {
   public static readonly onOpen = new BeUiEvent<BottomPanelOpenCloseArgs>();
   /** Event that is emitted when a bottom panel is closed */
   public static readonly onClose = new BeUiEvent<BottomPanelOpenCloseArgs>();
+  /** Event that is emitted when a bottom panel snaps to a detent */
+  public static readonly onDetentChanged = new BeUiEvent<BottomPanelDetentArgs>();
 }
 
-/** A custom hook function that returns the top of the currently open panel. See {@link BottomPanelEvents}. */
+/**
+ * A custom hook function that returns the top of the currently open panel. See {@link BottomPanelEvents}.
+ * Panels displayed as side sheets do not have a top, so undefined is returned for them.
+ */
 export function useBottomPanelTop() {
   const [top, setTop] = React.useState<number>();
 
   useBeUiEvent(React.useCallback((args: BottomPanelResizeArgs) => {
-    setTop(args.top);
+    setTop((args.placement ?? "bottom") === "bottom" ? args.top : undefined);
   }, []), BottomPanelEvents.onResize);
 
   useBeUiEvent(React.useCallback((args: BottomPanelOpenCloseArgs) => {
-    setTop(args.top);
+    setTop((args.placement ?? "bottom") === "bottom" ? args.top : undefined);
   }, []), BottomPanelEvents.onOpen);
 
   useBeUiEvent(React.useCallback((_args: BottomPanelOpenCloseArgs) => {
@@ -85,6 +140,44 @@ export function useBottomPanelTop() {
   return top;
 }
 
+/**
+ * A custom hook function that returns the placement a bottom panel should use.
+ * @param sideSheetPlacement - The side to use when the media query matches. When undefined, "bottom" is always returned.
+ * @param mediaQuery - The media query that determines when side sheets are used, default {@link getSideSheetMediaQuery}.
+ * @returns The placement to use for the panel.
+ * @public
+ */
+export function useBottomPanelPlacement(sideSheetPlacement?: "left" | "right", mediaQuery = getSideSheetMediaQuery()): BottomPanelPlacement {
+  const matches = useMediaQuery(mediaQuery);
+  return sideSheetPlacement && matches ? sideSheetPlacement : "bottom";
+}
+
+/**
+ * Gets the screen rectangle covered by the given panel when it is open, ignoring any transform applied while it is
+ * opening or closing.
+ */
+function getOpenRect(div: HTMLDivElement) {
+  const parentRect = (div.offsetParent ?? document.body).getBoundingClientRect();
+  return new DOMRect(parentRect.left + div.offsetLeft, parentRect.top + div.offsetTop, div.offsetWidth, div.offsetHeight);
+}
+
+/**
+ * Gets the screen rectangles covered by all currently open bottom panels and side sheets.
+ * @returns The screen rectangles of the open panels.
+ * @public
+ */
+export function getOpenBottomPanelRects() {
+  return getOpenBottomPanels().map((panel) => panel.rect);
+}
+
+/**
+ * Gets the divs of all currently open bottom panels and side sheets, along with the screen rectangles they cover.
+ * @internal
+ */
+export function getOpenBottomPanels() {
+  return Array.from(document.querySelectorAll<HTMLDivElement>(".mui-bottom-panel.opening"), (div) => ({ div, rect: getOpenRect(div) }));
+}
+
 /**
  * Properties for the {@link BottomPanel} component.
  * @public
@@ -115,14 +208,16 @@ export interface BottomPanelProps extends CommonProps {
   blur?: string;
   /** App-specific data attached to the bottom panel. */
   appData?: any;
+  /** The placement of the panel, default "bottom". Panels with "left" or "right" placement slide in from that side. */
+  placement?: BottomPanelPlacement;
 }
 
 /**
- * A React component representing a panel that slides up from the bottom.
+ * A React component representing a panel that slides up from the bottom, or in from the side when displayed as a side sheet.
  * @public
  */
 export const BottomPanel = React.forwardRef((props: BottomPanelProps, forwardedRef: MutableHtmlDivRefOrFunction) => {
-  const { className, style, children, isOpen, onOpen, onClose, isSplitScreen, isStandAlone, opacity, blur, appData } = props;
+  const { className, style, children, isOpen, onOpen, onClose, isSplitScreen, isStandAlone, opacity, blur, appData, placement = "bottom" } = props;
   const ref = React.useRef<HTMLDivElement | null>(null);
   const [opened, setOpened] = React.useState<boolean>();
   const topWhenClosed = React.useRef<number>();
@@ -150,19 +245,23 @@ export const BottomPanel = React.forwardRef((props: BottomPanelProps, forwardedR
       setTimeout(() => {
         // Panel height might have changed during the timeout.
         const height = ref.current.clientHeight;
-        BottomPanelEvents.onOpen.emit({ div: ref.current, height, top: topWhenClosed.current - height, appData });
+        const occludedRect = getOpenRect(ref.current);
+        const top = placement === "bottom" ? topWhenClosed.current - height : occludedRect.top;
+        BottomPanelEvents.onOpen.emit({ div: ref.current, height, top, placement, occludedRect, appData });
       }, 0);
     }
-  }, [isOpen, appData, onOpen, opened]);
+  }, [isOpen, appData, onOpen, opened, placement]);
 
   React.useEffect(() => {
     if (opened && ref.current && !isOpen) {
       const height = ref.current.clientHeight;
       onClose?.(height);
       setOpened(false);
-      BottomPanelEvents.onClose.emit({ div: ref.current, height, top: topWhenClosed.current, appData });
+      const occludedRect = getOpenRect(ref.current);
+      const top = placement === "bottom" ? topWhenClosed.current : occludedRect.top;
+      BottomPanelEvents.onClose.emit({ div: ref.current, height, top, placement, occludedRect, appData });
     }
-  }, [isOpen, appData, onClose, opened]);
+  }, [isOpen, appData, onClose, opened, placement]);
 
   const bodyStyle: any = {
     "--bottom-panel-opacity": opacity,
@@ -171,7 +270,8 @@ export const BottomPanel = React.forwardRef((props: BottomPanelProps, forwardedR
   return (
     <div
       ref={makeRefHandler(forwardedRef, ref)}
-      className={classnames("mui-bottom-panel", className, isOpen && "opening", isStandAlone && "mui-bottom-panel-overlay", isSplitScreen && "mui-bottom-panel-split-screen")}
+      className={classnames("mui-bottom-panel", className, isOpen && "opening", isStandAlone && "mui-bottom-panel-overlay", isSplitScreen && "mui-bottom-panel-split-screen",
+        placement !== "bottom" && ["mui-bottom-panel-side", `mui-bottom-panel-${placement}`])}
       style={style} >
       <div className="mui-bottom-panel-body" style={bodyStyle}>
         {children}
@@ -197,6 +297,17 @@ export interface ResizableBottomPanelProps extends BottomPanelProps, Optional<Re
    * is restored to the original size, which can be useful to allow animations to settle.
    */
   onAutoClose?: () => boolean | number;
+  /**
+   * The side of the screen used to display the panel as a horizontally resizable side sheet when {@link getSideSheetMediaQuery}
+   * matches. When undefined, the panel is always displayed at the bottom of the screen.
+   * Note: detents, height persistence, onResized, and onResizing only apply when the panel is at the bottom of the screen.
+   * Use {@link BottomPanelEvents} to track the size of side sheets.
+   */
+  sideSheetPlacement?: "left" | "right";
+  /** The media query that determines when the panel is displayed as a side sheet, default {@link getSideSheetMediaQuery}. */
+  sideSheetMediaQuery?: string;
+  /** Width at which a side sheet is closed automatically, defaults to 110 pixels. */
+  autoCloseWidth?: number;
 }
 
 /**
@@ -204,14 +315,17 @@ export interface ResizableBottomPanelProps extends BottomPanelProps, Optional<Re
  * @public
  */
 export function ResizableBottomPanel(props: ResizableBottomPanelProps) {
-  const { onResized, onResizing, header, children, minInitialHeight, maxInitialHeight, autoCloseHeight = 110, onAutoClose, onClose, reloadedEvent, heightCanExceedContents, heightState, className, flickUpHeight, appData, ...theRest } = props;
+  const { onResized, onResizing, header, children, minInitialHeight, maxInitialHeight, autoCloseHeight = 110, onAutoClose, onClose, reloadedEvent, heightCanExceedContents, heightState, className, flickUpHeight, appData, detents, detentState, onDetentChanged, onCloseRequested, persistenceKey, sideSheetPlacement, sideSheetMediaQuery: mediaQuery, autoCloseWidth = 110, ...theRest } = props;
+  const placement = useBottomPanelPlacement(sideSheetPlacement, mediaQuery);
   const [height, setHeight] = React.useState<string | number>();
+  const [sideWidth, setSideWidth] = React.useState<number>();
   const [calculatedInitialHeight, setCalculatedInitialHeight] = React.useState<number>();
   const [minHeight, setMinHeight] = React.useState(props.minHeight);
   const [maxHeight, setMaxHeight] = React.useState(props.maxHeight);
   const [autoClosed, setAutoClosed] = React.useState(false);
   const [flickingDown, setFlickingDown] = React.useState(false);
   const ref = React.useRef<HTMLDivElement | null>(null);
+  const activeDetent = React.useRef<string>();
 
   const updateCalculatedInitialHeight = (div: HTMLDivElement) => {
     const rect = div.getBoundingClientRect();
@@ -250,8 +364,8 @@ export function ResizableBottomPanel(props: ResizableBottomPanelProps) {
   }, [onAutoClose]);
 
   const onResizedHandler = React.useCallback((currentHeight: number, top: number) => {
-    if (props.isOpen) {
-      BottomPanelEvents.onResize.emit({ currentHeight, top, appData });
+    if (props.isOpen && ref.current) {
+      BottomPanelEvents.onResize.emit({ div: ref.current, currentHeight, top, detent: activeDetent.current, placement: "bottom", occludedRect: getOpenRect(ref.current), appData });
       if (onAutoClose && currentHeight <= autoCloseHeight) {
         return onAutoCloseHandler();
       }
@@ -260,11 +374,36 @@ export function ResizableBottomPanel(props: ResizableBottomPanelProps) {
   }, [autoCloseHeight, appData, onAutoClose, onAutoCloseHandler, onResized, props.isOpen]);
 
   const onResizingHandler = (top: number) => {
-    if (props.isOpen)
-      BottomPanelEvents.onResizing.emit({ top, appData });
+    if (props.isOpen && ref.current)
+      BottomPanelEvents.onResizing.emit({ div: ref.current, top, placement: "bottom", occludedRect: getOpenRect(ref.current), appData });
     onResizing?.(top);
   };
 
+  const onSideResizedHandler = React.useCallback((currentWidth: number) => {
+    if (props.isOpen && ref.current) {
+      const occludedRect = getOpenRect(ref.current);
+      BottomPanelEvents.onResize.emit({ div: ref.current, currentHeight: occludedRect.height, top: occludedRect.top, placement, occludedRect, appData });
+      if (onAutoClose && currentWidth <= autoCloseWidth) {
+        return onAutoCloseHandler();
+      }
+    }
+    return false;
+  }, [autoCloseWidth, appData, onAutoClose, onAutoCloseHandler, placement, props.isOpen]);
+
+  const onSideResizingHandler = () => {
+    if (props.isOpen && ref.current) {
+      const occludedRect = getOpenRect(ref.current);
+      BottomPanelEvents.onResizing.emit({ div: ref.current, top: occludedRect.top, placement, occludedRect, appData });
+    }
+  };
+
+  const onDetentChangedHandler = React.useCallback((detent: string, detentHeight: number) => {
+    activeDetent.current = detent;
+    if (props.isOpen)
+      BottomPanelEvents.onDetentChanged.emit({ detent, height: detentHeight, appData });
+    onDetentChanged?.(detent, detentHeight);
+  }, [appData, onDetentChanged, props.isOpen]);
+
   const onWindowResize = React.useCallback(() => {
     if (ref.current && maxInitialHeight === undefined && calculatedInitialHeight !== undefined) {
       updateCalculatedInitialHeight(ref.current);
@@ -277,11 +416,14 @@ export function ResizableBottomPanel(props: ResizableBottomPanelProps) {
       setTimeout(() => {
         if (ref.current) {
           const rect = ref.current.getBoundingClientRect();
-          onResizedHandler(rect.height, rect.top);
+          if (placement === "bottom")
+            onResizedHandler(rect.height, rect.top);
+          else
+            onSideResizedHandler(rect.width);
         }
       }, 500);
     }
-  }, [calculatedInitialHeight, maxInitialHeight, onResizedHandler, props.isOpen, props.maxHeight]);
+  }, [calculatedInitialHeight, maxInitialHeight, onResizedHandler, onSideResizedHandler, placement, props.isOpen, props.maxHeight]);
 
   useWindowEvent("resize", onWindowResize);
 
@@ -313,8 +455,20 @@ export function ResizableBottomPanel(props: ResizableBottomPanelProps) {
       className={classnames(className, flickingDown && "flicking")}
       onClose={onCloseHandler} ref={ref}
       appData={appData}
+      placement={placement}
       {...theRest}>
-      <ResizablePanel
+      {placement !== "bottom" && <ResizableSidePanel
+        side={placement}
+        onResized={onSideResizedHandler}
+        onResizing={onSideResizingHandler}
+        onFlickClosed={onFlickDownHandler}
+        onCloseRequested={onCloseRequested ?? (onAutoClose && onAutoCloseHandler)}
+        widthState={[sideWidth, setSideWidth]}
+        header={header}
+      >
+        {children}
+      </ResizableSidePanel>}
+      {placement === "bottom" && <ResizablePanel
         onResized={onResizedHandler}
         onResizing={onResizingHandler}
         onFlickDown={onFlickDownHandler}
@@ -327,9 +481,14 @@ export function ResizableBottomPanel(props: ResizableBottomPanelProps) {
         maxHeight={maxHeight}
         reloadedEvent={reloadedEvent}
         heightCanExceedContents={heightCanExceedContents}
+        detents={detents}
+        detentState={detentState}
+        onDetentChanged={onDetentChangedHandler}
+        onCloseRequested={onCloseRequested ?? (onAutoClose && onAutoCloseHandler)}
+        persistenceKey={persistenceKey}
       >
         {children}
-      </ResizablePanel>
+      </ResizablePanel>}
     </BottomPanel>
   );
 }
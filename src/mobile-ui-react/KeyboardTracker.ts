@@ -0,0 +1,180 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import * as React from "react";
+import { BeUiEvent } from "@itwin/core-bentley";
+import { Messenger } from "@itwin/mobile-sdk-core";
+import { useBeUiEvent } from "./MobileUi";
+
+/**
+ * Arguments for the {@link KeyboardTracker.onKeyboardChanged} event.
+ * @public
+ */
+export interface KeyboardChangedArgs {
+  /** The height in pixels of the part of the window covered by the virtual keyboard, 0 when it is hidden. */
+  height: number;
+  /** The duration in seconds of the keyboard show or hide animation, 0 when unknown. */
+  animationDuration: number;
+}
+
+/**
+ * The message sent by native code to {@link KeyboardTracker.registerNativeQueryHandler}.
+ * @public
+ */
+export interface NativeKeyboardMessage {
+  /** The height in pixels of the part of the web view covered by the keyboard, 0 when it is hidden. */
+  height: number;
+  /** The duration in seconds of the keyboard show or hide animation. */
+  animationDuration?: number;
+}
+
+/** Whether or not the given element shows the virtual keyboard when it has focus. */
+function isEditableElement(element: Element | null): element is HTMLElement {
+  if (element instanceof HTMLInputElement)
+    return !["button", "checkbox", "color", "file", "hidden", "image", "radio", "range", "reset", "submit"].includes(element.type);
+  return element instanceof HTMLTextAreaElement || (element instanceof HTMLElement && element.isContentEditable);
+}
+
+/**
+ * Class that tracks the height of the virtual keyboard. By default, the height is determined from the part of the window
+ * not covered by `window.visualViewport`. Native code that knows the keyboard height can report it instead, using
+ * {@link KeyboardTracker.setNativeKeyboardHeight} or {@link KeyboardTracker.registerNativeQueryHandler}.
+ *
+ * The height is also available in the `--mui-keyboard-height` CSS variable (in px). While native code reports the
+ * height, the animation duration is also available in the `--mui-keyboard-animation-duration` CSS variable (in s);
+ * otherwise the variable is not set, so CSS can fall back to `--itm-keyboard-animation-duration`.
+ * @public
+ */
+export class KeyboardTracker {
+  private static _isInitialized = false;
+  private static _visualViewportHeight = 0;
+  private static _nativeHeight?: number;
+  private static _animationDuration = 0;
+  private static _height = 0;
+
+  /** BeUiEvent emitted when the keyboard height changes. */
+  public static readonly onKeyboardChanged = new BeUiEvent<KeyboardChangedArgs>();
+
+  /**
+   * The height in pixels of the part of the window covered by the virtual keyboard, 0 when it is hidden.
+   * Note: {@link KeyboardTracker.initialize} must have been called for this to be tracked.
+   */
+  public static get height() {
+    return this._height;
+  }
+
+  /**
+   * Starts tracking the keyboard height. This is called automatically by {@link useKeyboardHeight} and the components
+   * that avoid the keyboard, and can safely be called more than once.
+   */
+  public static initialize() {
+    if (this._isInitialized)
+      return;
+    this._isInitialized = true;
+    window.visualViewport?.addEventListener("resize", this._onVisualViewportChanged);
+    window.visualViewport?.addEventListener("scroll", this._onVisualViewportChanged);
+    this.update();
+  }
+
+  /**
+   * Sets the keyboard height reported by native code, which takes precedence over the height determined from
+   * `window.visualViewport`.
+   * @param height - The keyboard height in pixels, or undefined to go back to using `window.visualViewport`.
+   * @param animationDuration - The duration in seconds of the keyboard show or hide animation, default 0.
+   */
+  public static setNativeKeyboardHeight(height: number | undefined, animationDuration = 0) {
+    this._nativeHeight = height;
+    // The height from window.visualViewport has no known animation duration.
+    this._animationDuration = height !== undefined ? animationDuration : 0;
+    this.initialize();
+    this.update();
+  }
+
+  /**
+   * Registers a {@link Messenger} query handler for native code to report the keyboard height with a
+   * {@link NativeKeyboardMessage}.
+   * @param queryName - The name of the query, default "Bentley_ITM_keyboardChanged".
+   * @returns A function that removes the handler.
+   */
+  public static registerNativeQueryHandler(queryName = "Bentley_ITM_keyboardChanged") {
+    const queryHandler = Messenger.onQuery(queryName);
+    queryHandler.setHandler(async (message: NativeKeyboardMessage) => {
+      this.setNativeKeyboardHeight(message.height, message.animationDuration);
+    });
+    return () => queryHandler.removeHandler();
+  }
+
+  private static update() {
+    if (this._nativeHeight !== undefined)
+      document.documentElement.style.setProperty("--mui-keyboard-animation-duration", `${this._animationDuration}s`);
+    else
+      document.documentElement.style.removeProperty("--mui-keyboard-animation-duration");
+    const height = Math.max(Math.round(this._nativeHeight ?? this._visualViewportHeight), 0);
+    if (height === this._height)
+      return;
+    this._height = height;
+    document.documentElement.style.setProperty("--mui-keyboard-height", `${height}px`);
+    this.onKeyboardChanged.emit({ height, animationDuration: this._animationDuration });
+  }
+
+  private static _onVisualViewportChanged = () => {
+    const visualViewport = window.visualViewport;
+    if (!visualViewport)
+      return;
+    // The visual viewport also shrinks when the user pinch-zooms, so only count the part missing from the bottom while
+    // an element that shows the keyboard has focus.
+    const coveredHeight = window.innerHeight - (visualViewport.height + visualViewport.offsetTop);
+    KeyboardTracker._visualViewportHeight = isEditableElement(document.activeElement) ? coveredHeight : 0;
+    KeyboardTracker.update();
+  };
+}
+
+/**
+ * Custom React hook that returns the height of the virtual keyboard, 0 when it is hidden.
+ * @public
+ */
+export function useKeyboardHeight() {
+  const [height, setHeight] = React.useState(() => {
+    KeyboardTracker.initialize();
+    return KeyboardTracker.height;
+  });
+  useBeUiEvent(React.useCallback((args: KeyboardChangedArgs) => setHeight(args.height), []), KeyboardTracker.onKeyboardChanged);
+  return height;
+}
+
+/**
+ * Custom React hook that scrolls the focused text input in the given container into view when the virtual keyboard
+ * is shown or resized, and when focus moves to a different text input while the keyboard is shown.
+ * @param containerRef - Ref to the container element.
+ * @public
+ */
+export function useKeepFocusedInputVisible(containerRef: React.RefObject<HTMLElement>) {
+  const keyboardHeight = useKeyboardHeight();
+
+  const scrollFocusedInputIntoView = React.useCallback(() => {
+    const focused = document.activeElement;
+    if (isEditableElement(focused) && containerRef.current?.contains(focused))
+      focused.scrollIntoView({ block: "nearest" });
+  }, [containerRef]);
+
+  React.useEffect(() => {
+    if (keyboardHeight <= 0)
+      return;
+    // Wait for the layout to react to the new keyboard height before scrolling.
+    const timer = setTimeout(scrollFocusedInputIntoView, 0);
+    return () => clearTimeout(timer);
+  }, [keyboardHeight, scrollFocusedInputIntoView]);
+
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container)
+      return;
+    const onFocusIn = () => {
+      if (KeyboardTracker.height > 0)
+        scrollFocusedInputIntoView();
+    };
+    container.addEventListener("focusin", onFocusIn);
+    return () => container.removeEventListener("focusin", onFocusIn);
+  }, [containerRef, scrollFocusedInputIntoView]);
+}
@@ -18,7 +18,6 @@ import {
   getAllViewports,
   getCssVariable,
   getCssVariableAsNumber,
-  getEmphasizeElements,
   Messenger,
   MobileCore,
   UIError,
@@ -430,56 +429,52 @@ export function useActiveToolId(ignoreEmptyToolIds: boolean = true) {
 /**
  * A custom React hook function for handling selection set changes.
  * @param handler - The callback function.
+ * @param target - The viewport whose iModel's selection set is tracked, default "first".
  */
-export function useSelectionSetChanged(handler: (selectionSet?: SelectionSet) => void) {
+export function useSelectionSetChanged(handler: (selectionSet?: SelectionSet) => void, target?: ViewportTarget) {
+  const vp = useTargetViewport(target);
   useSyncUiEvent(React.useCallback(() => {
-    const view = IModelApp.viewManager.getFirstOpenView();
-    if (view)
-      handler(view.iModel.selectionSet);
-    else
-      handler(undefined);
-  }, [handler]), SyncUiEventId.SelectionSetChanged);
+    handler(vp?.iModel.selectionSet);
+  }, [handler, vp]), SyncUiEventId.SelectionSetChanged);
 }
 
 /**
  * A custom React hook function for handling selection set count changes.
  * @param handler - The callback function.
+ * @param target - The viewport whose iModel's selection set is tracked, default "first".
  */
-export function useSelectionSetCountChanged(handler: (count: number) => void) {
+export function useSelectionSetCountChanged(handler: (count: number) => void, target?: ViewportTarget) {
   useSelectionSetChanged(React.useCallback((selSet?: SelectionSet) => {
     handler(selSet?.size ?? 0);
-  }, [handler]));
+  }, [handler]), target);
 }
 
 /**
- * A custom React hook function for keeping track of the current selection set.
+ * A custom React hook function for keeping track of the current selection set. Each iModel has its own selection set,
+ * so viewports showing different iModels have different selection sets.
+ * @param target - The viewport whose iModel's selection set is tracked, default "first".
  * @returns The current selection set.
  */
-export function useSelectionSet(): Set<string> {
-  const firstVp = useFirstViewport();
-  const emptySet = React.useMemo(() => new Set<string>(), []);
-  const [selectionSet, setSelectionSet] = React.useState(firstVp?.iModel.selectionSet.elements ?? emptySet);
+export function useSelectionSet(target?: ViewportTarget): Set<string> {
+  const vp = useTargetViewport(target);
+  const selectionSet = vp?.iModel.selectionSet;
+  // The selection set's elements are modified in place, so a copy is needed for React to see the change.
+  const getElements = React.useCallback(() => new Set<string>(selectionSet?.elements), [selectionSet]);
+  const [elements, setElements] = React.useState(getElements);
 
-  const updateSelectionSet = React.useCallback(() => {
-    const view = IModelApp.viewManager.getFirstOpenView()?.view;
-    if (view) {
-      setSelectionSet(view.iModel.selectionSet.elements);
-    } else {
-      setSelectionSet(emptySet);
-    }
-  }, [emptySet]);
-  useOptionalBeEvent(updateSelectionSet, firstVp?.iModel.selectionSet.onChanged);
-  useOptionalBeEvent(updateSelectionSet, IModelApp.viewManager.onViewOpen);
-  useOptionalBeEvent(updateSelectionSet, IModelApp.viewManager.onViewClose);
-  return selectionSet;
+  const updateElements = React.useCallback(() => setElements(getElements()), [getElements]);
+  React.useEffect(updateElements, [updateElements]);
+  useOptionalBeEvent(updateElements, selectionSet?.onChanged);
+  return elements;
 }
 
 /**
  * A custom React hook function for keeping track of the current selection set count.
+ * @param target - The viewport whose iModel's selection set is tracked, default "first".
  * @returns The number of elements in the current selection set.
  */
-export function useSelectionSetCount(): number {
-  return useSelectionSet().size;
+export function useSelectionSetCount(target?: ViewportTarget): number {
+  return useSelectionSet(target).size;
 }
 
 /**
@@ -532,6 +527,28 @@ export function useSelectedViewport(): ScreenViewport | undefined {
   return selectedViewport;
 }
 
+/**
+ * The viewport tracked by a hook: a specific viewport, "selected" to follow the selected viewport, or "first" to follow
+ * the first open viewport.
+ * @public
+ */
+export type ViewportTarget = ScreenViewport | "first" | "selected";
+
+/**
+ * A custom React hook function for getting the viewport for the given {@link ViewportTarget}.
+ * @param target - The viewport target, default "first".
+ * @returns The viewport, or undefined when there is no matching viewport open.
+ */
+export function useTargetViewport(target: ViewportTarget = "first"): ScreenViewport | undefined {
+  const firstViewport = useFirstViewport();
+  const selectedViewport = useSelectedViewport();
+  if (target === "first")
+    return firstViewport;
+  if (target === "selected")
+    return selectedViewport;
+  return target;
+}
+
 /**
  * A custom React hook function for tracking viewports changes.
  * @param handler - The callback function. Any time a viewport opens or closes, this is called with the new list of all
@@ -566,50 +583,63 @@ export function useViewports(): ScreenViewport[] {
 /**
  * A custom React hook function for handling viewport "feature overrides" changes.
  * @param handler - The callback function.
+ * @param target - The viewport to track, default "first".
  */
-export function useFeatureOverridesChanged(handler: (alwaysDrawn: Id64Set | undefined) => void) {
-  const vp = useFirstViewport();
+export function useFeatureOverridesChanged(handler: (alwaysDrawn: Id64Set | undefined) => void, target?: ViewportTarget) {
+  const vp = useTargetViewport(target);
 
   useOptionalBeEvent(React.useCallback((listenerVp: Viewport) => {
     handler(listenerVp.alwaysDrawn);
   }, [handler]), vp?.onFeatureOverridesChanged);
 }
 
-function getEmphasisCount(getElements: (vp: ScreenViewport, ee: EmphasizeElements) => Id64Set | undefined): number {
-  const [vp, ee] = getEmphasizeElements();
+function getEmphasisCount(getElements: (vp: ScreenViewport, ee: EmphasizeElements) => Id64Set | undefined, vp: ScreenViewport | undefined): number {
+  const ee = vp ? EmphasizeElements.get(vp) : undefined;
   if (!vp || !ee) return 0;
   return getElements(vp, ee)?.size ?? 0;
 }
 
-function useEmphasisCount(getElements: (vp: ScreenViewport, ee: EmphasizeElements) => Id64Set | undefined): number {
-  const [emphasisCount, setEmphasisCount] = React.useState(getEmphasisCount(getElements));
+function useEmphasisCount(getElements: (vp: ScreenViewport, ee: EmphasizeElements) => Id64Set | undefined, target?: ViewportTarget): number {
+  const vp = useTargetViewport(target);
+  const [emphasisCount, setEmphasisCount] = React.useState(() => getEmphasisCount(getElements, vp));
 
-  useFeatureOverridesChanged(React.useCallback(() => {
-    setEmphasisCount(getEmphasisCount(getElements));
-  }, [getElements]));
+  const updateEmphasisCount = React.useCallback(() => {
+    setEmphasisCount(getEmphasisCount(getElements, vp));
+  }, [getElements, vp]);
+  React.useEffect(updateEmphasisCount, [updateEmphasisCount]);
+  useFeatureOverridesChanged(updateEmphasisCount, vp);
 
   return emphasisCount;
 }
 
-/** A custom React hook function for tracking the emphasized elements count. */
-export function useEmphasizedCount(): number {
+/**
+ * A custom React hook function for tracking the emphasized elements count.
+ * @param target - The viewport to track, default "first".
+ */
+export function useEmphasizedCount(target?: ViewportTarget): number {
   return useEmphasisCount(React.useCallback((vp: ScreenViewport, ee: EmphasizeElements) => {
     return ee.getEmphasizedElements(vp);
-  }, []));
+  }, []), target);
 }
 
-/** A custom React hook function for tracking the hidden elements count. */
-export function useHiddenCount(): number {
+/**
+ * A custom React hook function for tracking the hidden elements count.
+ * @param target - The viewport to track, default "first".
+ */
+export function useHiddenCount(target?: ViewportTarget): number {
   return useEmphasisCount(React.useCallback((vp: ScreenViewport, ee: EmphasizeElements) => {
     return ee.getHiddenElements(vp);
-  }, []));
+  }, []), target);
 }
 
-/** A custom React hook function for tracking the isolated elements count. */
-export function useIsolatedCount(): number {
+/**
+ * A custom React hook function for tracking the isolated elements count.
+ * @param target - The viewport to track, default "first".
+ */
+export function useIsolatedCount(target?: ViewportTarget): number {
   return useEmphasisCount(React.useCallback((vp: ScreenViewport, ee: EmphasizeElements) => {
     return ee.getIsolatedElements(vp);
-  }, []));
+  }, []), target);
 }
 
 /**
@@ -0,0 +1,164 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import * as React from "react";
+import classnames from "classnames";
+import { Matrix3d, Vector3d, XAndY } from "@itwin/core-geometry";
+import { CommonProps } from "@itwin/core-react";
+import { ScreenViewport, Viewport } from "@itwin/core-frontend";
+import { Face } from "@itwin/imodel-components-react";
+import { MobileUi, useActiveColorSchemeIsDark, useOptionalBeEvent, useSelectedViewport } from "./MobileUi";
+import { CubeCellOffset, QuarterTurnDirection, rotateViewportByQuarterTurn, RotateViewportOptions, rotateViewportToCubeCell } from "./RotateViewport";
+import "./MobileViewCube.scss";
+
+/**
+ * Properties for the {@link MobileViewCube} component.
+ * @public
+ */
+// @todo AppUI deprecation
+// eslint-disable-next-line @typescript-eslint/no-deprecated
+export interface MobileViewCubeProps extends CommonProps {
+  /** The viewport to show and change the orientation of, default is the selected viewport. */
+  viewport?: ScreenViewport;
+  /** The size of the cube in pixels, default 80. */
+  size?: number;
+  /** The distance in pixels a swipe must travel to rotate the view a quarter turn, default 30. */
+  swipeDistance?: number;
+  /** The animation options used when rotating the view. */
+  rotateOptions?: RotateViewportOptions;
+}
+
+interface CubeFaceInfo {
+  face: Face;
+  labelKey: string;
+  /** The world direction of the face's horizontal axis. */
+  right: Vector3d;
+  /** The world direction of the face's vertical axis, pointing down. */
+  down: Vector3d;
+  /** The world direction of the face's outward normal. */
+  normal: Vector3d;
+}
+
+// The right and down directions match the routes in RotateViewport so that cell offsets line up with what is shown.
+const cubeFaces: CubeFaceInfo[] = [
+  { face: Face.Front, labelKey: "front", right: Vector3d.unitX(), down: Vector3d.unitZ(-1), normal: Vector3d.unitY(-1) },
+  { face: Face.Back, labelKey: "back", right: Vector3d.unitX(-1), down: Vector3d.unitZ(-1), normal: Vector3d.unitY() },
+  { face: Face.Top, labelKey: "top", right: Vector3d.unitX(), down: Vector3d.unitY(-1), normal: Vector3d.unitZ() },
+  { face: Face.Bottom, labelKey: "bottom", right: Vector3d.unitX(), down: Vector3d.unitY(), normal: Vector3d.unitZ(-1) },
+  { face: Face.Right, labelKey: "right", right: Vector3d.unitY(), down: Vector3d.unitZ(-1), normal: Vector3d.unitX() },
+  { face: Face.Left, labelKey: "left", right: Vector3d.unitY(-1), down: Vector3d.unitZ(-1), normal: Vector3d.unitX(-1) },
+];
+
+const cellOffsets: CubeCellOffset[] = [-1, 0, 1];
+
+/** Converts a view rotation into the CSS transform for the cube. CSS y points down, while view y points up. */
+function rotationToCss(rotation: Matrix3d) {
+  const column = (i: number) => `${rotation.at(0, i)},${-rotation.at(1, i)},${rotation.at(2, i)},0`;
+  return `matrix3d(${column(0)},${column(1)},${column(2)},0,0,0,1)`;
+}
+
+/** Converts the world axes of a face into the CSS transform that places the face on the cube. */
+function faceToCss(faceInfo: CubeFaceInfo, size: number) {
+  const { right, down, normal } = faceInfo;
+  const offset = normal.scale(size / 2);
+  return `matrix3d(${right.x},${right.y},${right.z},0,${down.x},${down.y},${down.z},0,${normal.x},${normal.y},${normal.z},0,${offset.x},${offset.y},${offset.z},1)`;
+}
+
+/**
+ * A touch-friendly React component that shows the orientation of a viewport as a cube. Tapping a face, edge, or corner
+ * of the cube rotates the viewport to look at it, and swiping across the cube rotates the viewport a quarter turn.
+ * @public
+ */
+export function MobileViewCube(props: MobileViewCubeProps) {
+  const { className, style, size = 80, swipeDistance = 30, rotateOptions } = props;
+  const selectedViewport = useSelectedViewport();
+  const vp = props.viewport ?? selectedViewport;
+  const isDark = useActiveColorSchemeIsDark();
+  const [rotation, setRotation] = React.useState(vp?.rotation.clone());
+  const swipeStart = React.useRef<XAndY>();
+  const swiped = React.useRef(false);
+
+  React.useEffect(() => {
+    setRotation(vp?.rotation.clone());
+  }, [vp]);
+
+  useOptionalBeEvent(React.useCallback((changedVp: Viewport) => {
+    setRotation((oldRotation) => oldRotation?.isAlmostEqual(changedVp.rotation) ? oldRotation : changedVp.rotation.clone());
+  }, []), vp?.onViewChanged);
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (!e.isPrimary) return;
+    swipeStart.current = { x: e.clientX, y: e.clientY };
+    swiped.current = false;
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!e.isPrimary || !vp || !swipeStart.current || swiped.current) return;
+    const dx = e.clientX - swipeStart.current.x;
+    const dy = e.clientY - swipeStart.current.y;
+    if (Math.max(Math.abs(dx), Math.abs(dy)) < swipeDistance) return;
+    let direction: QuarterTurnDirection;
+    if (Math.abs(dx) > Math.abs(dy))
+      direction = dx > 0 ? "right" : "left";
+    else
+      direction = dy > 0 ? "down" : "up";
+    // Only one quarter turn per swipe; the click that follows the swipe is ignored.
+    swiped.current = true;
+    rotateViewportByQuarterTurn(vp, direction, rotateOptions);
+  };
+
+  const onPointerEnd = () => {
+    swipeStart.current = undefined;
+  };
+
+  const onCellClick = (face: Face, x: CubeCellOffset, y: CubeCellOffset) => {
+    if (!vp || swiped.current) return;
+    rotateViewportToCubeCell(vp, face, x, y, rotateOptions);
+  };
+
+  const onCellKeyDown = (e: React.KeyboardEvent, face: Face) => {
+    if (e.key !== "Enter" && e.key !== " ") return;
+    e.preventDefault();
+    if (vp)
+      rotateViewportToCubeCell(vp, face, 0, 0, rotateOptions);
+  };
+
+  if (!vp || !vp.view.is3d() || !rotation)
+    return null;
+
+  const cubeStyle: React.CSSProperties = { width: size, height: size, transform: rotationToCss(rotation) };
+  return (
+    <div
+      className={classnames("mui-view-cube-container", isDark && "mui-view-cube-dark", className)}
+      style={{ ...style, width: size, height: size }}
+      role="group"
+      aria-label={MobileUi.translate("view-cube.label")}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerEnd}
+      onPointerCancel={onPointerEnd}
+    >
+      <div className="mui-view-cube" style={cubeStyle}>
+        {cubeFaces.map((faceInfo) =>
+          <div key={faceInfo.labelKey} className="mui-view-cube-face" style={{ width: size, height: size, transform: faceToCss(faceInfo, size) }}>
+            {cellOffsets.map((y) => cellOffsets.map((x) => {
+              const isCenter = x === 0 && y === 0;
+              return <div
+                key={`${x},${y}`}
+                className={classnames("mui-view-cube-cell", isCenter && "mui-view-cube-cell-center")}
+                role={isCenter ? "button" : undefined}
+                tabIndex={isCenter ? 0 : undefined}
+                aria-label={isCenter ? MobileUi.translate(`view-cube.${faceInfo.labelKey}`) : undefined}
+                onClick={() => onCellClick(faceInfo.face, x, y)}
+                onKeyDown={isCenter ? (e) => onCellKeyDown(e, faceInfo.face) : undefined}
+              >
+                {isCenter && MobileUi.translate(`view-cube.${faceInfo.labelKey}`)}
+              </div>;
+            }))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
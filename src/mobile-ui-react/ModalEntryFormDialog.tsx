@@ -6,24 +6,113 @@ import * as React from "react";
 import classnames from "classnames";
 import { CommonProps } from "@itwin/core-react";
 import { UiFramework } from "@itwin/appui-react";
+import { BeUiEvent } from "@itwin/core-bentley";
 import { SvgStatusWarning } from "@itwin/itwinui-icons-react";
-import { getCssVariableAsNumberOrDefault, MobileCore, Optional } from "@itwin/mobile-sdk-core";
+import { AlertAction, AlertActionStyle, getCssVariableAsNumberOrDefault, MobileCore, Optional } from "@itwin/mobile-sdk-core";
 import { CloseButton } from "./NavigationPanel";
-import { MobileUi } from "./MobileUi";
+import { MobileUi, useBeUiEvent, useIsMountedRef } from "./MobileUi";
+import { useKeepFocusedInputVisible } from "./KeyboardTracker";
+import { useNavigationEntry } from "./NavigationStack";
 
 import "./ModalEntryFormDialog.scss";
 
 /**
- * Properties for each field in a {@link ModalEntryFormDialog} component.
+ * The kind of a field in a {@link ModalEntryFormDialog} component.
  * @public
  */
-export interface ModalEntryFormFieldProps {
+export type ModalEntryFormFieldType = "text" | "password" | "email" | "url" | "multiline" | "number" | "checkbox" | "switch" | "select" | "date";
+
+/**
+ * The type of the value of a field in a {@link ModalEntryFormDialog} component.
+ * @public
+ */
+export type ModalEntryFormFieldValue = string | number | boolean | Date;
+
+/**
+ * The element used to edit a field in a {@link ModalEntryFormDialog} component.
+ * @public
+ */
+export type ModalEntryFormFieldElement = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+/**
+ * A function that validates the value of one field in a {@link ModalEntryFormDialog} component.
+ * @param value - The value of the field.
+ * @param values - The values of all the fields in the form.
+ * @returns An error message if the value is invalid, or undefined if it is valid. A Promise can be returned for
+ * validation that needs to be done asynchronously, for example to check if a name is already used.
+ * @public
+ */
+export type ModalEntryFormFieldValidator = (value: ModalEntryFormFieldValue | undefined, values: ModalEntryFormValue<ModalEntryFormFieldValue>[]) => string | undefined | Promise<string | undefined>;
+
+/**
+ * An error returned by a {@link ModalEntryFormValidator}.
+ * @public
+ */
+export interface ModalEntryFormError {
+  /** The error message. */
+  message: string;
+  /** The name of the field to show the error under. When undefined, the error is shown at the bottom of the form. */
+  fieldName?: string;
+}
+
+/**
+ * A function that validates the values of all the fields in a {@link ModalEntryFormDialog} component, for
+ * validation that involves more than one field.
+ * @param values - The values of all the fields in the form.
+ * @returns An error if the values are invalid, or undefined if they are valid. A Promise can be returned for
+ * validation that needs to be done asynchronously.
+ * @public
+ */
+export type ModalEntryFormValidator = (values: ModalEntryFormValue<ModalEntryFormFieldValue>[]) => ModalEntryFormError | undefined | Promise<ModalEntryFormError | undefined>;
+
+/**
+ * Properties common to all fields in a {@link ModalEntryFormDialog} component.
+ * @public
+ */
+export interface ModalEntryFormFieldCommonProps {
   /** The field name. */
   name: string;
+  /** The kind of field, default is "text". */
+  type?: ModalEntryFormFieldType;
+  /**
+   * Whether or not the field is required, default is false. Required checkbox and switch fields must be on. A blank
+   * required field is shown as an error on the field, using {@link ModalEntryFormValidators.required}.
+   */
+  isRequired?: boolean;
+  /**
+   * Callback every time the field value changes.
+   * Note: This uses method syntax so that existing callbacks that take an HTMLInputElement change event still work.
+   */
+  onChange?(this: void, e: React.ChangeEvent<ModalEntryFormFieldElement>): void;
+  /**
+   * Validators for the field, which are run in order every time the value changes and when the user taps OK. The first
+   * error is shown under the field, and OK is disabled while there is an error or validation is pending.
+   * See {@link ModalEntryFormValidators} for common validators.
+   */
+  validators?: ModalEntryFormFieldValidator[];
+  /**
+   * The title of the section the field belongs to. A section header is shown before each visible field whose section
+   * differs from the previous visible field's section.
+   */
+  section?: string;
+  /**
+   * Callback that determines whether or not the field is shown, which is called every time a value changes. Hidden
+   * fields are not validated or checked for required values, and their values are undefined when the user taps OK.
+   * They keep their current value in the form, so it is still there if they are shown again. Default is always visible.
+   */
+  isVisible?: (values: ModalEntryFormValue<ModalEntryFormFieldValue>[]) => boolean;
+}
+
+/**
+ * Properties for text fields, the default kind of field, in a {@link ModalEntryFormDialog} component. See
+ * {@link ModalEntryFormAnyFieldProps} for all kinds of fields.
+ * @public
+ */
+export interface ModalEntryFormFieldProps extends ModalEntryFormFieldCommonProps {
+  /** The kind of text field, default is "text". */
+  type?: "text" | "password" | "email" | "url" | "multiline";
   /** The initial value for the field. */
   initialValue?: string;
-  /** Whether or not the field is required, default is false. */
-  isRequired?: boolean;
   /** Whether or not white space should be trimmed off the beginning and end of entered text, default is false. */
   autoTrim?: boolean;
   /**
@@ -34,21 +123,182 @@ export interface ModalEntryFormFieldProps {
    * character. If you need to include compound characters, pass them using a string array.
    */
   forbiddenCharacters?: string[] | string;
-  /** Callback every time the field value changes. */
-  onChange?: (e: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
 /**
- * One value returned by {@link ModalEntryFormDialog} component.
+ * Properties for number fields in a {@link ModalEntryFormDialog} component.
+ * @public
+ */
+export interface ModalEntryFormNumberFieldProps extends ModalEntryFormFieldCommonProps {
+  type: "number";
+  /** The initial value for the field. */
+  initialValue?: number;
+  /** The minimum allowed value. */
+  min?: number;
+  /** The maximum allowed value. Values outside of min and max are reported as errors. */
+  max?: number;
+  /** The step between allowed values. When this is a whole number, the virtual keyboard does not have a decimal point. */
+  step?: number;
+}
+
+/**
+ * Properties for checkbox and switch fields in a {@link ModalEntryFormDialog} component.
+ * @public
+ */
+export interface ModalEntryFormBooleanFieldProps extends ModalEntryFormFieldCommonProps {
+  type: "checkbox" | "switch";
+  /** The initial value for the field, default is false. */
+  initialValue?: boolean;
+}
+
+/**
+ * One choice in a select field. See {@link ModalEntryFormSelectFieldProps}.
+ * @public
+ */
+export interface ModalEntryFormSelectOption {
+  /** The value returned when this choice is selected. */
+  value: string;
+  /** The text shown for this choice, default is value. */
+  label?: string;
+}
+
+/**
+ * Properties for single-choice select fields in a {@link ModalEntryFormDialog} component.
+ * @public
+ */
+export interface ModalEntryFormSelectFieldProps extends ModalEntryFormFieldCommonProps {
+  type: "select";
+  /** The choices. */
+  options: ModalEntryFormSelectOption[];
+  /** The value of the initially selected choice. When undefined, no choice is initially selected. */
+  initialValue?: string;
+}
+
+/**
+ * Properties for date fields in a {@link ModalEntryFormDialog} component. Dates are in local time with no time of day.
  * @public
  */
-export interface ModalEntryFormValue {
+export interface ModalEntryFormDateFieldProps extends ModalEntryFormFieldCommonProps {
+  type: "date";
+  /** The initial value for the field. */
+  initialValue?: Date;
+  /** The earliest allowed date. */
+  min?: Date;
+  /** The latest allowed date. */
+  max?: Date;
+}
+
+/**
+ * Properties for each field of any kind in a {@link ModalEntryFormDialog} component.
+ * @public
+ */
+export type ModalEntryFormAnyFieldProps =
+  ModalEntryFormFieldProps |
+  ModalEntryFormNumberFieldProps |
+  ModalEntryFormBooleanFieldProps |
+  ModalEntryFormSelectFieldProps |
+  ModalEntryFormDateFieldProps;
+
+/**
+ * The type of the value of the given field type: number for number fields, boolean for checkbox and switch fields,
+ * Date for date fields, and string for everything else.
+ * @public
+ */
+export type ModalEntryFormFieldValueType<F> =
+  F extends { type: "number" } ? number :
+  F extends { type: "checkbox" | "switch" } ? boolean :
+  F extends { type: "date" } ? Date :
+  string;
+
+/**
+ * One value returned by {@link ModalEntryFormDialog} component. The value type defaults to string, the type of text
+ * field values; use {@link ModalEntryFormValues} to get the value types for other kinds of fields.
+ * @public
+ */
+export interface ModalEntryFormValue<T extends ModalEntryFormFieldValue = string> {
   /** The current value */
-  value: string | undefined;
+  value: T | undefined;
   /** Warning to to show under `value`'s field */
   warning?: string;
 }
 
+/**
+ * The values returned by {@link ModalEntryFormDialog.run} for the given fields, with each value typed to match its field.
+ * @public
+ */
+export type ModalEntryFormValues<F extends readonly ModalEntryFormAnyFieldProps[]> = {
+  -readonly [K in keyof F]: ModalEntryFormValue<ModalEntryFormFieldValueType<F[K]>>;
+};
+
+/** Gets the translated message to use for a validation error. */
+function getValidationMessage(message: string | undefined, key: string, options?: any) {
+  return message ?? MobileUi.translate(`modal-entry-form.${key}`, options);
+}
+
+/**
+ * Common validators for fields in a {@link ModalEntryFormDialog} component. Like HTML form validation, these do not
+ * report errors for empty values; use isRequired for that.
+ * @public
+ */
+export class ModalEntryFormValidators {
+  /**
+   * Creates a validator that reports blank values: undefined, empty text, and switches and checkboxes that are off.
+   * This is used for fields with isRequired set.
+   * @param message - The error message, default is a generic message (localized).
+   */
+  public static required(message?: string): ModalEntryFormFieldValidator {
+    return (value) => value === undefined || value === false || value === "" ? getValidationMessage(message, "required") : undefined;
+  }
+
+  /**
+   * Creates a validator that requires text values to match the given regular expression.
+   * @param pattern - The regular expression.
+   * @param message - The error message, default is a generic message (localized).
+   */
+  public static pattern(pattern: RegExp, message?: string): ModalEntryFormFieldValidator {
+    return (value) => {
+      if (typeof value !== "string" || value === "") return undefined;
+      // Reset lastIndex in case a global or sticky pattern is used more than once.
+      pattern.lastIndex = 0;
+      return pattern.test(value) ? undefined : getValidationMessage(message, "invalid-format");
+    };
+  }
+
+  /**
+   * Creates a validator that requires the length of text values to be in the given range.
+   * @param min - The minimum length.
+   * @param max - The maximum length.
+   * @param message - The error message, default describes the length requirement (localized).
+   */
+  public static textLength(min?: number, max?: number, message?: string): ModalEntryFormFieldValidator {
+    return (value) => {
+      if (typeof value !== "string" || value === "") return undefined;
+      if (min !== undefined && value.length < min)
+        return getValidationMessage(message, "too-short", { min });
+      if (max !== undefined && value.length > max)
+        return getValidationMessage(message, "too-long", { max });
+      return undefined;
+    };
+  }
+
+  /**
+   * Creates a validator that requires number values to be in the given range.
+   * @param min - The minimum value.
+   * @param max - The maximum value.
+   * @param message - The error message, default describes the range requirement (localized).
+   */
+  public static range(min?: number, max?: number, message?: string): ModalEntryFormFieldValidator {
+    return (value) => {
+      if (typeof value !== "number") return undefined;
+      if (min !== undefined && value < min)
+        return getValidationMessage(message, "below-minimum", { min });
+      if (max !== undefined && value > max)
+        return getValidationMessage(message, "above-maximum", { max });
+      return undefined;
+    };
+  }
+}
+
 /**
  * Properties for the {@link ModalDialog} component.
  * @public
@@ -60,15 +310,30 @@ export interface ModalDialogProps extends CommonProps {
   children: React.ReactNode;
   /** Title of the dialog. */
   title: string;
-  /** Text to show on the Cancel button, default is "Cancel" (localized). Set to an empty string to hide it. */
+  /** Text to show on the Cancel button, default is "Cancel" (localized). Set to an empty string to hide it. Ignored when actions is set. */
   cancelTitle?: string;
-  /** Text to show on the OK button, default is "OK" (localized). Set to an empty string to hide it. */
+  /** Text to show on the OK button, default is "OK" (localized). Set to an empty string to hide it. Ignored when actions is set. */
   okTitle?: string;
   /**
+   * The buttons to show instead of OK and Cancel, in order. Tapping an action with the cancel style is the same as
+   * tapping Cancel, and tapping any other action is the same as tapping OK. The last action with the default style is
+   * highlighted and is triggered by the Enter key. When the buttons do not fit next to each other, they are stacked
+   * vertically with the last one on top.
+   */
+  actions?: AlertAction[];
+  /** Set to true to disable the OK button (or all actions that do not have the cancel style), default is false. */
+  okDisabled?: boolean;
+  /**
+   * Set to true to fade the dialog out, for dialogs that close without the user tapping a button, default is false.
+   * Note: Component owner is still responsible for closing the dialog.
+   */
+  isClosing?: boolean;
+  /**
    * Callback called when user taps OK button. Return true to accept, or false to fail.
    * Note: Component owner is responsible for closing the dialog when OK is accepted.
+   * @param actionName - When actions is set, the name of the tapped action. Otherwise undefined.
    */
-  onOK: () => Promise<boolean>;
+  onOK: (actionName?: string) => Promise<boolean>;
   /**
    * Callback called when user taps Cancel button.
    * Note: Component owner is responsible for closing the dialog.
@@ -76,94 +341,219 @@ export interface ModalDialogProps extends CommonProps {
   onCancel: () => void;
 }
 
+/**
+ * How a dialog opened by {@link ModalDialog.run} or {@link ModalEntryFormDialog.run} is presented when other dialogs
+ * are already open.
+ * - "stack": the dialog is shown on top of the open dialogs, which are restored when it closes.
+ * - "queue": the dialog is shown after all the open and queued dialogs have closed.
+ * @public
+ */
+export type ModalDialogPresentation = "stack" | "queue";
+
+/**
+ * Options for {@link ModalDialog.run} and {@link ModalEntryFormDialog.run}.
+ * @public
+ */
+export interface ModalDialogRunOptions {
+  /** How the dialog is presented when other dialogs are already open, default is "stack". */
+  presentation?: ModalDialogPresentation;
+}
+
 /**
  * Properties passed to the {@link ModalDialog.run} function.
- * This just uses {@link ModalDialogProps}, but makes onOK and onCancel optional.
+ * This uses {@link ModalDialogProps}, but makes onOK and onCancel optional, and adds {@link ModalDialogRunOptions}.
+ * @public
+ */
+export type ModalDialogRunProps = Optional<ModalDialogProps, "onOK" | "onCancel"> & ModalDialogRunOptions;
+
+/**
+ * Properties passed to the {@link ModalDialog.runWithActions} function.
+ * This uses {@link ModalDialogRunProps}, but requires actions.
  * @public
  */
-export type ModalDialogRunProps = Optional<ModalDialogProps, "onOK" | "onCancel">;
+export type ModalDialogActionsRunProps = Omit<ModalDialogRunProps, "actions" | "okTitle" | "cancelTitle"> & { actions: AlertAction[] };
 
 /**
  * Properties for the {@link ModalEntryFormDialog} component.
  * @public
  */
-export interface ModalEntryFormDialogProps extends Omit<ModalDialogProps, "children" | "onOK"> {
+export interface ModalEntryFormDialogProps<F extends readonly ModalEntryFormAnyFieldProps[] = readonly ModalEntryFormFieldProps[]> extends Omit<ModalDialogProps, "children" | "onOK" | "actions"> {
   /** Array of fields to display in the dialog. */
-  fields: ModalEntryFormFieldProps[];
+  fields: F;
   /**
    * Callback called when user taps OK button. Return true to accept, or false to fail.
    * Note: Component owner is responsible for closing the dialog when OK is accepted.
    */
-  onOK: (values: ModalEntryFormValue[]) => Promise<boolean>;
+  onOK: (values: ModalEntryFormValues<F>) => Promise<boolean>;
+  /**
+   * Callback that was called when the user tapped OK and one or more required fields were blank.
+   * Note: This is no longer called, since blank required fields are now shown as errors on the fields. It is only kept
+   * so that existing code still compiles.
+   */
+  onError?: (message: string) => Promise<void>;
   /**
-   * Callback called with the user taps OK and there is an error (like one or more required fields is blank).
-   * The callback should show the given error message to the user and wait for them to acknowledge it.
+   * Validators for the whole form, which are run every time a value changes and when the user taps OK. OK is
+   * disabled while there is an error or validation is pending.
    */
-  onError: (message: string) => Promise<void>;
+  validators?: ModalEntryFormValidator[];
 }
 
 /**
  * Properties passed to the {@link ModalEntryFormDialog.run} function.
- * This just uses {@link ModalEntryFormDialogProps}, but makes onOK and onCancel optional.
+ * This uses {@link ModalEntryFormDialogProps}, but makes onOK and onCancel optional, and adds {@link ModalDialogRunOptions}.
  * @public
  */
-export type ModalEntryFormDialogRunProps = Optional<ModalEntryFormDialogProps, "onOK" | "onCancel">;
+export type ModalEntryFormDialogRunProps<F extends readonly ModalEntryFormAnyFieldProps[] = readonly ModalEntryFormFieldProps[]> = Optional<ModalEntryFormDialogProps<F>, "onOK" | "onCancel"> & ModalDialogRunOptions;
 
 /**
  * @internal
  */
-interface ModalEntryFormFieldPropsInternal extends ModalEntryFormFieldProps {
+type ModalEntryFormFieldPropsInternal = ModalEntryFormAnyFieldProps & {
   onEnter: () => void;
   onFocus: () => void;
   index: number;
+  isLast: boolean;
   isDisabled?: boolean;
   isFocused?: boolean;
-  value: string;
+  value: ModalEntryFormFieldValue | undefined;
   warning?: string;
+  isValidating?: boolean;
+};
+
+/** Converts a Date into the local "yyyy-mm-dd" string used by date inputs. */
+function dateToInputValue(date: Date | undefined) {
+  if (!date) return "";
+  const pad = (value: number) => `${value}`.padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Converts the "yyyy-mm-dd" string from a date input into a local Date. */
+function inputValueToDate(value: string) {
+  const parts = value.split("-").map((part) => parseInt(part, 10));
+  if (parts.length !== 3 || parts.some((part) => isNaN(part)))
+    return undefined;
+  return new Date(parts[0], parts[1] - 1, parts[2]);
+}
+
+/**
+ * Gets the value of the given field from its edit element.
+ * @internal
+ */
+function getElementValue(field: ModalEntryFormAnyFieldProps, element: ModalEntryFormFieldElement): ModalEntryFormFieldValue | undefined {
+  switch (field.type) {
+    case "number":
+      return element.value !== "" && !isNaN(Number(element.value)) ? Number(element.value) : undefined;
+    case "checkbox":
+    case "switch":
+      return (element as HTMLInputElement).checked;
+    case "date":
+      return inputValueToDate(element.value);
+    default:
+      // Note: empty string evaluates to false when checked for ?:. This uses undefined instead of empty string.
+      return element.value ? element.value : undefined;
+  }
 }
 
 /**
  * @internal
  */
 function ModalEntryFormField(props: ModalEntryFormFieldPropsInternal) {
-  const { name, value, isRequired = false, onEnter, onFocus, index, isDisabled, isFocused, warning } = props;
+  const { name, value, isRequired = false, onEnter, onFocus, index, isLast, isDisabled, isFocused, warning, isValidating } = props;
   const labelClassNames = classnames("mui-modal-entry-form-field-label", isRequired && "mui-required");
+  const id = ModalEntryFormField.idForName(name);
 
   const handleKeyUp = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter") {
       onEnter();
-      e.currentTarget.blur();
+      if (isLast)
+        e.currentTarget.blur();
     }
   };
 
+  // React wants inputs to be either fully controlled, or fully uncontrolled. In other words, if we are passing a
+  // value to an input, we must fully control that value. This is also why the value that is passed to the input is
+  // set to empty string when undefined is passed in.
+  // https://reactjs.org/docs/forms.html#controlled-components
+  const commonInputProps = {
+    className: classnames("mui-modal-entry-form-field-input", warning && "mui-modal-entry-form-field-input-warning"),
+    id,
+    onChange: props.onChange,
+    onFocus,
+    autoFocus: isFocused && !MobileCore.isIosPlatform,
+    disabled: isDisabled,
+    tabIndex: index + 1,
+  };
+  const textInputProps = {
+    ...commonInputProps,
+    onKeyUp: handleKeyUp,
+    enterKeyHint: isLast ? "done" as const : "next" as const,
+    autoComplete: "off",
+    autoCapitalize: "off",
+    autoCorrect: "off",
+  };
+
+  let input: React.ReactNode;
+  switch (props.type) {
+    case "number": {
+      const isInteger = props.step !== undefined && Number.isInteger(props.step) && (props.min === undefined || props.min >= 0);
+      input = <input {...textInputProps} type="number" inputMode={isInteger ? "numeric" : "decimal"} min={props.min} max={props.max} step={props.step} value={(value as number | undefined) ?? ""} />;
+      break;
+    }
+    case "checkbox":
+    case "switch":
+      input = <input
+        {...commonInputProps}
+        className={classnames(commonInputProps.className, props.type === "switch" && "mui-modal-entry-form-switch")}
+        type="checkbox"
+        role={props.type === "switch" ? "switch" : undefined}
+        checked={!!value}
+      />;
+      break;
+    case "select":
+      input = <select {...commonInputProps} value={(value as string | undefined) ?? ""}>
+        {value === undefined && <option value="" disabled />}
+        {props.options.map((option) => <option key={option.value} value={option.value}>{option.label ?? option.value}</option>)}
+      </select>;
+      break;
+    case "date":
+      input = <input {...textInputProps} type="date" min={dateToInputValue(props.min) || undefined} max={dateToInputValue(props.max) || undefined} value={dateToInputValue(value as Date | undefined)} />;
+      break;
+    case "multiline":
+      // Enter inserts a new line in multiline fields, so it does not go to the next field.
+      input = <textarea {...commonInputProps} autoComplete="off" autoCapitalize="off" autoCorrect="off" rows={3} value={(value as string | undefined) ?? ""} />;
+      break;
+    default: {
+      const type = props.type ?? "text";
+      const inputMode = type === "email" || type === "url" ? type : "text";
+      input = <input {...textInputProps} type={type} inputMode={inputMode} value={(value as string | undefined) ?? ""} />;
+      break;
+    }
+  }
+
+  const isBoolean = props.type === "checkbox" || props.type === "switch";
   return (
     <div className="mui-modal-entry-form-field">
-      <div className="mui-modal-entry-form-field-label-row">
-        <div className={labelClassNames}>{name}</div>
+      <div className={classnames("mui-modal-entry-form-field-label-row", isBoolean && "mui-modal-entry-form-field-boolean-row")}>
+        <label className={labelClassNames} htmlFor={id}>{name}</label>
         {isRequired && <div className={classnames(labelClassNames, "mui-required-red")}>&nbsp;*</div>}
+        {isBoolean && input}
       </div>
-      <input
-        className={classnames("mui-modal-entry-form-field-input", warning && "mui-modal-entry-form-field-input-warning")}
-        id={ModalEntryFormField.idForName(name)}
-        type="text"
-        onChange={props.onChange}
-        onKeyUp={handleKeyUp}
-        onFocus={onFocus}
-        autoFocus={isFocused && !MobileCore.isIosPlatform} // eslint-disable-line jsx-a11y/no-autofocus
-        autoComplete="off"
-        autoCapitalize="off"
-        autoCorrect="off"
-        disabled={isDisabled}
-        tabIndex={index + 1}
-        value={value}
-      />
-      {warning && <div className="mui-modal-entry-form-warning">
-        <span><SvgStatusWarning className="mui-modal-entry-form-warning-icon"/>{warning}</span>
-      </div>}
+      {!isBoolean && input}
+      {isValidating && <div className="mui-modal-entry-form-validating">{MobileUi.translate("modal-entry-form.validating")}</div>}
+      {!isValidating && warning && <ModalEntryFormWarning warning={warning} />}
     </div>
   );
 }
 
+/**
+ * @internal
+ */
+function ModalEntryFormWarning({ warning }: { warning: string }) {
+  return <div className="mui-modal-entry-form-warning">
+    <span><SvgStatusWarning className="mui-modal-entry-form-warning-icon"/>{warning}</span>
+  </div>;
+}
+
 /**
  * @internal
  */
@@ -171,79 +561,340 @@ ModalEntryFormField.idForName = (name: string) => {
   return `ModalEntryFormField-${name}`;
 };
 
+/**
+ * Arguments for the {@link ModalDialogStack.onChanged} event.
+ * @public
+ */
+export interface ModalDialogStackChangedArgs {
+  /** The ids of the open dialogs, from bottom to top. */
+  openIds: readonly string[];
+}
+
+/**
+ * Class that keeps track of the dialogs opened by {@link ModalDialog.run} and {@link ModalEntryFormDialog.run}, so that
+ * dialogs opened while another is open are stacked on top of it or queued behind it. Only the top dialog accepts input,
+ * and the dialog below it is restored when it closes.
+ * @public
+ */
+export class ModalDialogStack {
+  private static _openIds: string[] = [];
+  private static _queue: Array<{ id: string, dialog: React.ReactNode }> = [];
+  /** The nodes passed to {@link UiFramework.dialogs.modal}, which closes dialogs by node rather than by id. */
+  private static _nodes = new Map<string, React.ReactNode>();
+  private static _closingCount = 0;
+  private static _nextId = 0;
+
+  /** BeUiEvent emitted when a dialog is opened or starts closing. */
+  public static readonly onChanged = new BeUiEvent<ModalDialogStackChangedArgs>();
+
+  /** The ids of the open dialogs, from bottom to top. Dialogs that are fading out are not included. */
+  public static get openIds(): readonly string[] {
+    return this._openIds;
+  }
+
+  /** The id of the top dialog, or undefined if no dialogs are open. */
+  public static get topId(): string | undefined {
+    return this._openIds[this._openIds.length - 1];
+  }
+
+  /**
+   * Opens the given dialog using {@link UiFramework.dialogs.modal}.
+   * @param dialog - The dialog to open.
+   * @param presentation - How to present the dialog when other dialogs are already open, default is "stack".
+   * @returns The id of the dialog, to pass to {@link ModalDialogStack.close}.
+   */
+  public static open(dialog: React.ReactNode, presentation: ModalDialogPresentation = "stack") {
+    const id = `mui-modal-dialog-${++this._nextId}`;
+    if (presentation === "queue" && (this._openIds.length > 0 || this._closingCount > 0 || this._queue.length > 0))
+      this._queue.push({ id, dialog });
+    else
+      this.show(id, dialog);
+    return id;
+  }
+
+  /**
+   * Closes the given dialog, or removes it from the queue if it has not been opened yet.
+   * @param id - The id returned by {@link ModalDialogStack.open}.
+   * @param delay - The time in ms to wait before removing the dialog, to allow it to fade out, default 0. The dialog
+   * below it is restored immediately.
+   */
+  public static close(id: string, delay = 0) {
+    const queueIndex = this._queue.findIndex((queued) => queued.id === id);
+    if (queueIndex !== -1) {
+      this._queue.splice(queueIndex, 1);
+      return;
+    }
+    const index = this._openIds.indexOf(id);
+    if (index === -1)
+      return;
+    this._openIds.splice(index, 1);
+    this.onChanged.emit({ openIds: this._openIds });
+    if (delay <= 0) {
+      this.remove(id);
+      return;
+    }
+    ++this._closingCount;
+    setTimeout(() => {
+      --this._closingCount;
+      this.remove(id);
+    }, delay);
+  }
+
+  private static show(id: string, dialog: React.ReactNode) {
+    const node = <ModalDialogIdContext.Provider value={id}>{dialog}</ModalDialogIdContext.Provider>;
+    this._openIds.push(id);
+    this._nodes.set(id, node);
+    UiFramework.dialogs.modal.open(node, id);
+    this.onChanged.emit({ openIds: this._openIds });
+  }
+
+  private static remove(id: string) {
+    const node = this._nodes.get(id);
+    this._nodes.delete(id);
+    // Note: Without a node, close() closes the active dialog, which might be a different one.
+    if (node)
+      UiFramework.dialogs.modal.close(node);
+    if (this._openIds.length > 0 || this._closingCount > 0)
+      return;
+    const next = this._queue.shift();
+    if (next)
+      this.show(next.id, next.dialog);
+  }
+}
+
+/** The id from {@link ModalDialogStack} of the dialog being rendered. */
+const ModalDialogIdContext = React.createContext<string | undefined>(undefined);
+
+/**
+ * Custom React hook that gets the position of the calling dialog in the {@link ModalDialogStack}.
+ * @returns The depth of the dialog (0 for the bottom dialog) and whether or not it is the top dialog.
+ */
+function useModalDialogStackPosition() {
+  const id = React.useContext(ModalDialogIdContext);
+  const getPosition = React.useCallback(() => {
+    const index = id !== undefined ? ModalDialogStack.openIds.indexOf(id) : -1;
+    return { depth: Math.max(index, 0), isTop: index === -1 || id === ModalDialogStack.topId };
+  }, [id]);
+  const [position, setPosition] = React.useState(getPosition);
+  useBeUiEvent(React.useCallback(() => {
+    const newPosition = getPosition();
+    // A closing dialog is no longer in the stack; keep its position so it fades out where it was.
+    if (id !== undefined && !ModalDialogStack.openIds.includes(id))
+      return;
+    setPosition((oldPosition) => oldPosition.depth === newPosition.depth && oldPosition.isTop === newPosition.isTop ? oldPosition : newPosition);
+  }, [getPosition, id]), ModalDialogStack.onChanged);
+  return position;
+}
+
+const focusableSelector = "button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), a[href], [tabindex]:not([tabindex='-1'])";
+
+/** Gets the focusable elements in the given element, in tab order. */
+function getFocusableElements(element: HTMLElement) {
+  const elements = Array.from(element.querySelectorAll<HTMLElement>(focusableSelector));
+  // Elements with a positive tabIndex come first in ascending order, followed by the rest in document order.
+  const positive = elements.filter((e) => e.tabIndex > 0).sort((a, b) => a.tabIndex - b.tabIndex);
+  return [...positive, ...elements.filter((e) => e.tabIndex === 0)];
+}
+
+/** Whether or not the given element handles the Enter key itself. */
+function handlesEnter(element: EventTarget) {
+  return element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement || element instanceof HTMLButtonElement || element instanceof HTMLAnchorElement;
+}
+
 /**
  * A React component representing a modal dialog. This fills the screen with a darkening background and centers the dialog.
+ *
+ * Focus moves into the dialog when it opens and returns to the previously focused element when it closes, and Tab and
+ * Shift+Tab cycle through the dialog's controls. Enter (outside of the dialog's controls) is the same as tapping OK, and
+ * Escape is the same as tapping Cancel when there is a Cancel button.
  * @public
  */
 export function ModalDialog(props: ModalDialogProps) {
-  const { title, className, onCancel, onOK, cancelTitle, okTitle, children } = props;
+  const { title, className, onCancel, onOK, cancelTitle, okTitle, actions, okDisabled, isClosing, children } = props;
   const [fadedOut, setFadedOut] = React.useState(true);
   const [waitingToClose, setWaitingToClose] = React.useState(false);
+  const { depth, isTop } = useModalDialogStackPosition();
+  const dialogRef = React.useRef<HTMLDivElement>(null);
+  const openerRef = React.useRef<HTMLElement>();
+  const titleId = React.useId();
+  useKeepFocusedInputVisible(dialogRef);
+  const buttonRowRef = React.useRef<HTMLDivElement>(null);
+  const [stackButtons, setStackButtons] = React.useState(false);
+
+  // OK and Cancel are treated as actions so that both kinds of buttons behave the same.
+  const buttons: AlertAction[] = actions ?? [
+    ...(cancelTitle !== "" ? [{ name: "cancel", title: cancelTitle ?? MobileCore.translate("general.cancel"), style: AlertActionStyle.Cancel }] : []),
+    ...(okTitle !== "" ? [{ name: "ok", title: okTitle ?? MobileCore.translate("general.ok"), style: AlertActionStyle.Default }] : []),
+  ];
+  const isCancelAction = (action: AlertAction) => action.style === AlertActionStyle.Cancel;
+  const defaultAction = [...buttons].reverse().find((action) => (action.style ?? AlertActionStyle.Default) === AlertActionStyle.Default);
+  const hasCancel = buttons.some(isCancelAction);
+  const buttonTitles = buttons.map((action) => action.title).join("\n");
+
+  React.useLayoutEffect(() => {
+    // Stack the buttons when they overflow the row. Un-stacking them below re-checks the fit after the size changes.
+    const buttonRow = buttonRowRef.current;
+    if (!stackButtons && buttonRow && buttonRow.scrollWidth > buttonRow.clientWidth)
+      setStackButtons(true);
+  }, [stackButtons, buttonTitles]);
+
+  React.useEffect(() => {
+    const onResize = () => setStackButtons(false);
+    window.addEventListener("resize", onResize);
+    return () => window.removeEventListener("resize", onResize);
+  }, []);
+
+  const restoreFocus = React.useCallback(() => {
+    const opener = openerRef.current;
+    openerRef.current = undefined;
+    if (opener?.isConnected)
+      opener.focus({ preventScroll: true });
+  }, []);
+
+  React.useEffect(() => {
+    // Remember what had focus before the dialog opened so that focus can be returned to it when the dialog closes.
+    if (document.activeElement instanceof HTMLElement && !dialogRef.current?.contains(document.activeElement))
+      openerRef.current = document.activeElement;
+    return restoreFocus;
+  }, [restoreFocus]);
 
+  React.useEffect(() => {
+    // Move focus into the dialog when it opens, and when a dialog stacked on top of it closes. The dialog itself gets
+    // focus (instead of its first control) so that the virtual keyboard is not shown unless a field asks for it.
+    const dialog = dialogRef.current;
+    if (isTop && dialog && !dialog.contains(document.activeElement))
+      dialog.focus({ preventScroll: true });
+  }, [isTop]);
+
+  const closingRef = React.useRef(false);
   React.useEffect(() => {
     // Create the dialog with fadedOut set, then switch it off after it has been created, which will trigger the half
     // second fade-in animation.
     setTimeout(() => {
-      setFadedOut(false);
+      if (!closingRef.current)
+        setFadedOut(false);
     }, 0);
   }, []);
 
-  const handleOK = React.useCallback(async () => {
-    if (waitingToClose)
+  React.useEffect(() => {
+    if (!isClosing)
+      return;
+    closingRef.current = true;
+    setWaitingToClose(true);
+    setFadedOut(true);
+    restoreFocus();
+  }, [isClosing, restoreFocus]);
+
+  const handleOK = React.useCallback(async (actionName?: string) => {
+    if (waitingToClose || okDisabled)
       return false;
     setWaitingToClose(true);
     try {
-      if (await onOK()) {
+      if (await onOK(actionName)) {
         setFadedOut(true);
+        restoreFocus();
         return true;
       }
     } finally {
       setWaitingToClose(false);
     }
     return false;
-  }, [onOK, waitingToClose]);
+  }, [okDisabled, onOK, restoreFocus, waitingToClose]);
 
   const handleCancel = React.useCallback(() => {
     if (waitingToClose)
       return;
     setWaitingToClose(true);
     setFadedOut(true);
+    restoreFocus();
     onCancel();
-  }, [onCancel, waitingToClose]);
+  }, [onCancel, restoreFocus, waitingToClose]);
+
+  // The system back button is the same as tapping Cancel, and does nothing when there is no Cancel button. The entry is
+  // removed as soon as the dialog starts closing (or waits for onOK), so that going back does not cancel it again.
+  useNavigationEntry(!fadedOut && !waitingToClose, () => {
+    if (hasCancel)
+      handleCancel();
+  }, "modal-dialog");
+
+  const handleKeyDown = async (e: React.KeyboardEvent<HTMLDivElement>) => {
+    switch (e.key) {
+      case "Tab": {
+        const focusable = getFocusableElements(e.currentTarget);
+        e.preventDefault();
+        if (focusable.length === 0)
+          return;
+        const index = focusable.indexOf(document.activeElement as HTMLElement);
+        const nextIndex = e.shiftKey ? (index <= 0 ? focusable.length - 1 : index - 1) : (index + 1) % focusable.length;
+        focusable[nextIndex].focus();
+        break;
+      }
+      case "Escape":
+        if (hasCancel) {
+          e.preventDefault();
+          e.stopPropagation();
+          handleCancel();
+        }
+        break;
+      case "Enter":
+        if (!handlesEnter(e.target) && defaultAction) {
+          e.preventDefault();
+          await handleOK(actions ? defaultAction.name : undefined);
+        }
+        break;
+    }
+  };
 
-  const cancelClassName = classnames("mui-modal-button", waitingToClose && "mui-modal-button-disabled");
-  const okClassName = classnames("mui-modal-button", "mui-default", waitingToClose && "mui-modal-button-disabled");
   return (
-    <div className={classnames("mui-modal-dialog-screen-cover", fadedOut && "mui-faded-out")}>
-      <div className="mui-modal-dialog-parent">
-        <div className={classnames("mui-modal-dialog", className)}>
-          {cancelTitle !== "" && <CloseButton className="mui-modal-close-button"
+    <div
+      className={classnames("mui-modal-dialog-screen-cover", fadedOut && "mui-faded-out", !isTop && "mui-modal-dialog-covered")}
+      style={{ "--mui-modal-dialog-depth": depth } as React.CSSProperties}
+      aria-hidden={!isTop || undefined}
+    >
+      {/* Key presses are handled here, since the dialog itself is not an interactive element. */}
+      <div className="mui-modal-dialog-parent" onKeyDown={handleKeyDown}>
+        <div
+          className={classnames("mui-modal-dialog", className)}
+          ref={dialogRef}
+          role="dialog"
+          aria-modal={true}
+          aria-labelledby={titleId}
+          tabIndex={-1}
+        >
+          {/* The close button duplicates the Cancel button, so it is not in the tab order. */}
+          {hasCancel && <CloseButton className="mui-modal-close-button"
             onClick={() => {
               handleCancel();
             }}
             iconSize={"16px"}
           />}
-          <div className="mui-modal-title">{title}</div>
+          <h2 className="mui-modal-title" id={titleId}>{title}</h2>
           {children}
-          <div className="mui-modal-button-row">
-            {cancelTitle !== "" && <div
-              className={cancelClassName}
-              onClick={(e: React.MouseEvent) => {
-                e.stopPropagation();
-                handleCancel();
-              }}
-            >
-              {cancelTitle ?? MobileCore.translate("general.cancel")}
-            </div>}
-            {okTitle !== "" && <div
-              className={okClassName}
-              onClick={async (e: React.MouseEvent) => {
-                e.stopPropagation();
-                await handleOK();
-              }}
-            >
-              {okTitle ?? MobileCore.translate("general.ok")}
-            </div>}
+          <div className={classnames("mui-modal-button-row", stackButtons && "mui-modal-button-column")} ref={buttonRowRef}>
+            {buttons.map((action) => {
+              const isCancel = isCancelAction(action);
+              const disabled = waitingToClose || (!isCancel && okDisabled);
+              return <button
+                key={action.name}
+                type="button"
+                className={classnames(
+                  "mui-modal-button",
+                  action === defaultAction && "mui-default",
+                  action.style === AlertActionStyle.Destructive && "mui-modal-button-destructive",
+                  disabled && "mui-modal-button-disabled",
+                )}
+                disabled={disabled}
+                onClick={async (e: React.MouseEvent) => {
+                  e.stopPropagation();
+                  if (isCancel)
+                    handleCancel();
+                  else
+                    await handleOK(actions ? action.name : undefined);
+                }}
+              >
+                {action.title}
+              </button>;
+            })}
           </div>
         </div>
       </div>
@@ -251,35 +902,140 @@ export function ModalDialog(props: ModalDialogProps) {
   );
 }
 
+/** Whether or not the given field is a text field. */
+function isTextField(field: ModalEntryFormAnyFieldProps): field is ModalEntryFormFieldProps {
+  return field.type === undefined || field.type === "text" || field.type === "password" || field.type === "email" || field.type === "url" || field.type === "multiline";
+}
+
+/**
+ * Runs the given validation functions in order, stopping at the first error. This only returns a Promise if one of the
+ * functions does, so that synchronous validation does not show a pending indicator.
+ */
+function runValidators<T>(validators: Array<() => T | undefined | Promise<T | undefined>>): T | undefined | Promise<T | undefined> {
+  for (let i = 0; i < validators.length; ++i) {
+    const result = validators[i]();
+    if (result instanceof Promise) {
+      return (async () => {
+        return (await result) ?? runValidators(validators.slice(i + 1));
+      })();
+    }
+    if (result !== undefined)
+      return result;
+  }
+  return undefined;
+}
+
+/** Gets all the validators for the given field, including the ones implied by its properties. */
+function getFieldValidators(field: ModalEntryFormAnyFieldProps) {
+  const validators = [...field.validators ?? []];
+  if (field.type === "number" && (field.min !== undefined || field.max !== undefined))
+    validators.unshift(ModalEntryFormValidators.range(field.min, field.max));
+  if (field.isRequired)
+    validators.unshift(ModalEntryFormValidators.required());
+  return validators;
+}
+
+/** Whether or not pressing Enter in the given field moves to the next field. */
+function acceptsEnter(field: ModalEntryFormAnyFieldProps) {
+  return (isTextField(field) && field.type !== "multiline") || field.type === "number" || field.type === "date";
+}
+
 /**
  * A React component representing an entry form dialog. This fills the screen with a darkening background
  * and centers the dialog (moving it up to avoid the virtual keyboard).
  * @public
  */
-export function ModalEntryFormDialog(props: ModalEntryFormDialogProps) {
-  const { onOK, onError: showError, fields, ...theRest } = props;
-  const [values, setValues] = React.useState<ModalEntryFormValue[]>(fields.map((field) => ({ value: field.initialValue })));
+export function ModalEntryFormDialog<F extends readonly ModalEntryFormAnyFieldProps[] = readonly ModalEntryFormFieldProps[]>(props: ModalEntryFormDialogProps<F>) {
+  const { onOK, onError: _onError, fields, validators: _validators, ...theRest } = props;
+  const [values, setValues] = React.useState<ModalEntryFormValue<ModalEntryFormFieldValue>[]>(fields.map((field) => ({ value: field.type === "checkbox" || field.type === "switch" ? !!field.initialValue : field.initialValue })));
   const [waitingToClose, setWaitingToClose] = React.useState(false);
   const [focusIndex, setFocusIndex] = React.useState(0);
+  const [errors, setErrors] = React.useState<Array<string | undefined>>(fields.map(() => undefined));
+  const [validating, setValidating] = React.useState<boolean[]>(fields.map(() => false));
+  const [formError, setFormError] = React.useState<ModalEntryFormError>();
+  const [formValidating, setFormValidating] = React.useState(false);
+  // Errors are only shown for fields that have been changed, or for all fields after the user taps OK.
+  const [touched, setTouched] = React.useState<boolean[]>(fields.map(() => false));
+  const [showAllErrors, setShowAllErrors] = React.useState(false);
+  // Incremented for every validation so that results from out of date asynchronous validation are ignored.
+  const validationCounts = React.useRef<number[]>(fields.map(() => 0));
+  const formValidationCount = React.useRef(0);
+  const isMountedRef = useIsMountedRef();
+
+  const isFieldVisible = React.useCallback((index: number, currentValues: ModalEntryFormValue<ModalEntryFormFieldValue>[]) => fields[index].isVisible?.(currentValues) ?? true, [fields]);
+
+  const setFieldState = <T,>(setState: React.Dispatch<React.SetStateAction<T[]>>, index: number, value: T) => {
+    setState((prevStates) => prevStates.map((prevState, prevIndex) => prevIndex === index ? value : prevState));
+  };
+
+  /**
+   * Validates the given fields and the form.
+   * @returns A Promise that resolves to true if everything is valid.
+   */
+  const validate = async (indices: number[], currentValues: ModalEntryFormValue<ModalEntryFormFieldValue>[]) => {
+    const results = indices.map(async (index) => {
+      const count = ++validationCounts.current[index];
+      const validators = isFieldVisible(index, currentValues) ? getFieldValidators(fields[index]) : [];
+      const result = runValidators(validators.map((validator) => (): ReturnType<ModalEntryFormFieldValidator> => validator(currentValues[index].value, currentValues)));
+      if (result instanceof Promise)
+        setFieldState(setValidating, index, true);
+      const error = await result;
+      if (isMountedRef.current && count === validationCounts.current[index]) {
+        setFieldState(setErrors, index, error);
+        setFieldState(setValidating, index, false);
+      }
+      return error === undefined;
+    });
+    const formResult = (async () => {
+      const count = ++formValidationCount.current;
+      const result = runValidators((props.validators ?? []).map((validator) => (): ReturnType<ModalEntryFormValidator> => validator(currentValues)));
+      if (result instanceof Promise)
+        setFormValidating(true);
+      const error = await result;
+      if (isMountedRef.current && count === formValidationCount.current) {
+        setFormError(error);
+        setFormValidating(false);
+      }
+      return error === undefined;
+    })();
+    return (await Promise.all([...results, formResult])).every((valid) => valid);
+  };
+
+  const validateRef = React.useRef(validate);
+  validateRef.current = validate;
+  // The values that were last validated, so that only the fields that changed are validated.
+  const validatedValuesRef = React.useRef<ModalEntryFormValue<ModalEntryFormFieldValue>[]>();
+
+  React.useEffect(() => {
+    // Validate the initial values so that OK is disabled if they are not valid, and after that the fields that changed.
+    // Fields that were just shown or hidden also need validating, since hidden fields never have errors.
+    const prevValues = validatedValuesRef.current;
+    validatedValuesRef.current = values;
+    const changedIndices = values
+      .map((_value, index) => index)
+      .filter((index) => !prevValues || prevValues[index].value !== values[index].value || isFieldVisible(index, prevValues) !== isFieldVisible(index, values));
+    if (changedIndices.length > 0)
+      void validateRef.current(changedIndices, values);
+  }, [isFieldVisible, values]);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>, index: number, onChange?: (e: React.ChangeEvent<HTMLInputElement>) => void) => {
-    // React wants inputs to be either fully controlled, or fully uncontrolled. In other words, if we are passing a
-    // value to an input, we must fully control that value. This is also why the value that is passed to the field is
-    // set to empty string when undefined is passed in.
-    // https://reactjs.org/docs/forms.html#controlled-components
+  const handleChange = (e: React.ChangeEvent<ModalEntryFormFieldElement>, index: number, onChange?: (e: React.ChangeEvent<ModalEntryFormFieldElement>) => void) => {
     const input = e.currentTarget;
+    const field = fields[index];
 
-    const rawForbiddenCharacters = fields[index].forbiddenCharacters;
+    const rawForbiddenCharacters = isTextField(field) ? field.forbiddenCharacters : undefined;
     const forbiddenCharacters = typeof rawForbiddenCharacters === "string" ? [...rawForbiddenCharacters] : rawForbiddenCharacters;
     const valueContainsForbiddenChars = forbiddenCharacters?.some((x) => input.value?.includes(x));
-    const newValue = valueContainsForbiddenChars ? {
-      ...values[index],
-      warning: MobileUi.translate("modal-entry-form.forbidden-characters", { symbols: forbiddenCharacters?.join(" "), interpolation: { escapeValue: false } }),
-    } : {
-      // Note: empty string evaluates to false when checked for ?:. This uses undefined instead of empty string.
-      value: input.value ? input.value : undefined,
-    };
-    setValues((prevValues) => prevValues.map((prevValue, prevIndex) => prevIndex === index ? newValue : prevValue));
+    const warning = valueContainsForbiddenChars ?
+      MobileUi.translate("modal-entry-form.forbidden-characters", { symbols: forbiddenCharacters?.join(" "), interpolation: { escapeValue: false } }) :
+      undefined;
+    const value = getElementValue(field, input);
+    // Use the previous values from the update, since several changes can happen before the next render.
+    setValues((prevValues) => prevValues.map((prevValue, prevIndex) => {
+      if (prevIndex !== index)
+        return prevValue;
+      return warning !== undefined ? { ...prevValue, warning } : { value };
+    }));
+    setFieldState(setTouched, index, true);
     onChange?.(e);
   };
 
@@ -287,63 +1043,85 @@ export function ModalEntryFormDialog(props: ModalEntryFormDialogProps) {
     if (waitingToClose) {
       return false;
     }
-    const missingValues: string[] = [];
     for (let i = 0; i < fields.length; ++i) {
       const field = fields[i];
       const value = values[i];
-      if (!!field.autoTrim && value.value !== undefined) {
+      if (isTextField(field) && !!field.autoTrim && typeof value.value === "string") {
         value.value = value.value.trim();
       }
-      if (field.isRequired) {
-        if (!value.value || value.value.length === 0) {
-          missingValues.push(field.name);
-        }
-      }
     }
-    if (missingValues.length > 0) {
-      if (missingValues.length === 1) {
-        await showError(MobileUi.translate("modal-entry-form.required-field", { field: missingValues[0] }));
-      } else {
-        await showError(MobileUi.translate("modal-entry-form.required-fields", { fields: missingValues.join(", ") }));
-      }
+    // Blank required fields are reported by their validators, like any other error.
+    setShowAllErrors(true);
+    if (!(await validate(fields.map((_field, index) => index), values))) {
       return false;
     }
     setWaitingToClose(true);
     try {
-      return await onOK(values);
+      const visibleValues = values.map((value, index) => isFieldVisible(index, values) ? value : { value: undefined });
+      // Each value matches the type of its field, which is what ModalEntryFormValues<F> describes.
+      return await onOK(visibleValues as unknown as ModalEntryFormValues<F>);
     } finally {
       setWaitingToClose(false);
     }
   };
 
-  const handleEnter = async () => {
-    await handleOK();
+  const handleEnter = async (index: number) => {
+    // Enter moves to the next field that supports it, and the last such field accepts the form.
+    const nextIndex = fields.findIndex((field, fieldIndex) => fieldIndex > index && acceptsEnter(field) && isFieldVisible(fieldIndex, values));
+    if (nextIndex === -1) {
+      await handleOK();
+      return;
+    }
+    document.getElementById(ModalEntryFormField.idForName(fields[nextIndex].name))?.focus();
   };
 
+  const lastEnterIndex = fields.reduce((lastIndex, field, index) => acceptsEnter(field) && isFieldVisible(index, values) ? index : lastIndex, -1);
+
   const handleFocus = (index: number) => {
     setFocusIndex(index);
   };
 
+  const getFieldError = (index: number) => {
+    if (!showAllErrors && !touched[index])
+      return undefined;
+    return errors[index] ?? (formError?.fieldName === fields[index].name ? formError.message : undefined);
+  };
+
+  const isValidating = formValidating || validating.some((fieldValidating) => fieldValidating);
+  const isInvalid = !!formError || errors.some((error) => error !== undefined) || values.some((value, index) => value.warning !== undefined && isFieldVisible(index, values));
+  const showFormError = formError && formError.fieldName === undefined && (showAllErrors || touched.some((fieldTouched) => fieldTouched));
+
+  let previousSection: string | undefined;
   return (
-    <ModalDialog onOK={handleOK} {...theRest} >
-      {fields.map((fieldProps: ModalEntryFormFieldProps, index) => {
+    <ModalDialog onOK={handleOK} okDisabled={isValidating || isInvalid} {...theRest} >
+      {fields.map((fieldProps: ModalEntryFormAnyFieldProps, index) => {
+        if (!isFieldVisible(index, values))
+          return null;
+        const showSection = !!fieldProps.section && fieldProps.section !== previousSection;
+        previousSection = fieldProps.section;
         return (
-          <ModalEntryFormField
-            key={index}
-            isDisabled={waitingToClose}
-            isFocused={focusIndex === index}
-            index={index}
-            {...fieldProps}
-            value={values[index].value ?? ""}
-            warning={values[index].warning}
-            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-              handleChange(e, index, fieldProps.onChange);
-            }}
-            onEnter={handleEnter}
-            onFocus={() => handleFocus(index)}
-          />
+          <React.Fragment key={index}>
+            {showSection && <div className="mui-modal-entry-form-section" role="heading" aria-level={3}>{fieldProps.section}</div>}
+            <ModalEntryFormField
+              isDisabled={waitingToClose}
+              isFocused={focusIndex === index}
+              index={index}
+              isLast={index === lastEnterIndex}
+              {...fieldProps}
+              value={values[index].value}
+              warning={values[index].warning ?? getFieldError(index)}
+              isValidating={validating[index]}
+              onChange={(e: React.ChangeEvent<ModalEntryFormFieldElement>) => {
+                handleChange(e, index, fieldProps.onChange);
+              }}
+              onEnter={async () => handleEnter(index)}
+              onFocus={() => handleFocus(index)}
+            />
+          </React.Fragment>
         );
       })}
+      {showFormError && <ModalEntryFormWarning warning={formError.message} />}
+      {formValidating && <div className="mui-modal-entry-form-validating">{MobileUi.translate("modal-entry-form.validating")}</div>}
     </ModalDialog>
   );
 }
@@ -353,18 +1131,17 @@ interface OKCancelHandlers<T> {
   onCancel: () => void;
 }
 
-async function showModalDialog<T, P extends OKCancelHandlers<T>>(props: P, render: (newProps: P) => React.ReactNode) {
+async function showModalDialog<T, P extends OKCancelHandlers<T>>(props: P, render: (newProps: P) => React.ReactNode, presentation?: ModalDialogPresentation) {
   return new Promise<T | undefined>((resolve) => {
     const fadeDuration = getCssVariableAsNumberOrDefault("--mui-fade-duration", .5) * 1000;
+    let id = "";
 
     const handleOK = async (value: T) => {
       if (!(await props.onOK(value))) {
         return false;
       }
       // Wait for half second while the dialog fades out before removing it.
-      setTimeout(() => {
-        UiFramework.dialogs.modal.close();
-      }, fadeDuration);
+      ModalDialogStack.close(id, fadeDuration);
       resolveAndCleanup(value);
       return true;
     };
@@ -372,9 +1149,7 @@ async function showModalDialog<T, P extends OKCancelHandlers<T>>(props: P, rende
     const handleCancel = () => {
       props.onCancel();
       // Wait for half second while the dialog fades out before removing it.
-      setTimeout(() => {
-        UiFramework.dialogs.modal.close();
-      }, fadeDuration);
+      ModalDialogStack.close(id, fadeDuration);
       resolveAndCleanup(undefined);
     };
 
@@ -384,17 +1159,17 @@ async function showModalDialog<T, P extends OKCancelHandlers<T>>(props: P, rende
     };
 
     const onClose = () => {
-      // Mobile UI is closing, so close the dialog immediately.
-      UiFramework.dialogs.modal.close();
+      // Mobile UI is closing, so close the dialog immediately (or remove it from the queue if it is not open yet).
+      ModalDialogStack.close(id);
       resolveAndCleanup(undefined);
     };
 
     MobileUi.onClose.addListener(onClose);
-    UiFramework.dialogs.modal.open(render({
+    id = ModalDialogStack.open(render({
       ...props,
       onOK: handleOK,
       onCancel: handleCancel,
-    }));
+    }), presentation);
   });
 }
 
@@ -402,15 +1177,16 @@ async function showModalDialog<T, P extends OKCancelHandlers<T>>(props: P, rende
  * A convenience function to open (and close when appropriate) a {@link ModalEntryFormDialog} using {@link UiFramework.dialogs.modal}.
  * @public
  * @param props The properties used to create the ModalEntryFormDialog component.
- * @returns An array of ModalEntryFormValue objects.
+ * @returns An array of ModalEntryFormValue objects, each typed to match its field, or undefined if the dialog was canceled.
  */
-ModalEntryFormDialog.run = async (props: ModalEntryFormDialogRunProps) => {
-  const dialogProps: ModalEntryFormDialogProps = {
+ModalEntryFormDialog.run = async <const F extends readonly ModalEntryFormAnyFieldProps[] = readonly ModalEntryFormFieldProps[]>(props: ModalEntryFormDialogRunProps<F>) => {
+  const { presentation, ...theRest } = props;
+  const dialogProps: ModalEntryFormDialogProps<F> = {
     onOK: async () => true,
     onCancel: () => { },
-    ...props,
+    ...theRest,
   };
-  return showModalDialog<ModalEntryFormValue[], ModalEntryFormDialogProps>(dialogProps, (newProps) => <ModalEntryFormDialog {...newProps} />);
+  return showModalDialog<ModalEntryFormValues<F>, ModalEntryFormDialogProps<F>>(dialogProps, (newProps) => <ModalEntryFormDialog {...newProps} />, presentation);
 };
 
 /**
@@ -420,10 +1196,11 @@ ModalEntryFormDialog.run = async (props: ModalEntryFormDialogRunProps) => {
  * @returns True if the OK button was pressed, False otherwise.
  */
 ModalDialog.run = async (props: ModalDialogRunProps) => {
+  const { presentation, ...theRest } = props;
   let okPressed = false;
   const dialogProps: ModalDialogProps = {
     onCancel: () => { },
-    ...props,
+    ...theRest,
     onOK: async () => {
       if (!!props.onOK && !(await props.onOK()))
         return false;
@@ -431,10 +1208,38 @@ ModalDialog.run = async (props: ModalDialogRunProps) => {
       return true;
     },
   };
-  await showModalDialog<void, ModalDialogProps>(dialogProps, (newProps) => <ModalDialog {...newProps} />);
+  // The OK handler is passed the name of the tapped action, which is undefined since there are no actions.
+  await showModalDialog<string | undefined, ModalDialogProps>(dialogProps, (newProps) => <ModalDialog {...newProps} />, presentation);
   return okPressed;
 };
 
+/**
+ * A convenience function to open (and close when appropriate) a {@link ModalDialog} with the given actions using
+ * {@link UiFramework.dialogs.modal}. The actions use the same model as `presentAlert` in mobile-sdk-core, so the same
+ * action definitions can be used for native alerts and for this dialog.
+ * @public
+ * @param props The properties used to create the ModalDialog component.
+ * @returns The name of the selected action, or undefined if the dialog was closed without selecting one.
+ */
+ModalDialog.runWithActions = async (props: ModalDialogActionsRunProps) => {
+  const { presentation, ...theRest } = props;
+  const cancelAction = props.actions.find((action) => action.style === AlertActionStyle.Cancel);
+  let canceled = false;
+  const dialogProps: ModalDialogProps = {
+    ...theRest,
+    onOK: async (name?: string) => !props.onOK || props.onOK(name),
+    onCancel: () => {
+      canceled = true;
+      props.onCancel?.();
+    },
+  };
+  // The value passed to the OK handler is the name of the tapped action.
+  const actionName = await showModalDialog<string, ModalDialogProps>(dialogProps, (newProps) => <ModalDialog {...newProps} />, presentation);
+  const selected = actionName !== undefined ? props.actions.find((action) => action.name === actionName) : canceled ? cancelAction : undefined;
+  selected?.onSelected?.(selected);
+  return selected?.name;
+};
+
 /**
  * A convenience function to open (and close when appropriate) a {@link ModalDialog} using {@link UiFramework.dialogs.modal}.
  * @public
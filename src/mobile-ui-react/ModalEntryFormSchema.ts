@@ -0,0 +1,441 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { Messenger } from "@itwin/mobile-sdk-core";
+import {
+  ModalEntryFormAnyFieldProps,
+  ModalEntryFormDialog,
+  ModalEntryFormDialogRunProps,
+  ModalEntryFormFieldType,
+  ModalEntryFormFieldValidator,
+  ModalEntryFormFieldValue,
+  ModalEntryFormValidators,
+  ModalEntryFormValue,
+} from "./ModalEntryFormDialog";
+
+/**
+ * A value in a {@link ModalEntryFormSchema}. Date values are local dates in "yyyy-mm-dd" format.
+ * @public
+ */
+export type ModalEntryFormSchemaValue = string | number | boolean;
+
+/**
+ * A condition that determines whether or not a field in a {@link ModalEntryFormSchema} is visible, based on the value
+ * of another field. When none of equals, notEquals, and oneOf are given, the other field must have a value that is not
+ * false, 0, or blank.
+ * @public
+ */
+export interface ModalEntryFormSchemaCondition {
+  /** The name of the field whose value is checked. */
+  field: string;
+  /** The field is visible when the other field has this value. */
+  equals?: ModalEntryFormSchemaValue;
+  /** The field is visible when the other field does not have this value. */
+  notEquals?: ModalEntryFormSchemaValue;
+  /** The field is visible when the other field has one of these values. */
+  oneOf?: ModalEntryFormSchemaValue[];
+}
+
+/**
+ * A field in a {@link ModalEntryFormSchema}. See {@link ModalEntryFormAnyFieldProps} for more details on each property.
+ * @public
+ */
+export interface ModalEntryFormSchemaField {
+  /** The field name, which is also the key of the field's value in {@link ModalEntryFormSchemaResult}. */
+  name: string;
+  /** The kind of field, default is "text". */
+  type?: ModalEntryFormFieldType;
+  /** Whether or not the field is required, default is false. */
+  isRequired?: boolean;
+  /** The initial value, which must match the field type. */
+  initialValue?: ModalEntryFormSchemaValue;
+  /** Condition for showing the field, default is always visible. */
+  visibleWhen?: ModalEntryFormSchemaCondition;
+  /** Text fields only: whether or not to trim white space from the entered text. */
+  autoTrim?: boolean;
+  /** Text fields only: the characters that are not allowed to be entered. */
+  forbiddenCharacters?: string[] | string;
+  /** Text fields only: a regular expression the entered text must match. */
+  pattern?: string;
+  /** Text fields only: the error shown when the entered text does not match pattern, default is a generic message. */
+  patternMessage?: string;
+  /** Text fields only: the minimum length of the entered text. */
+  minLength?: number;
+  /** Text fields only: the maximum length of the entered text. */
+  maxLength?: number;
+  /** Number and date fields only: the minimum value. */
+  min?: number | string;
+  /** Number and date fields only: the maximum value. */
+  max?: number | string;
+  /** Number fields only: the step between allowed values. */
+  step?: number;
+  /** Select fields only: the choices. */
+  options?: Array<{ value: string, label?: string }>;
+}
+
+/**
+ * A group of fields in a {@link ModalEntryFormSchema}, shown under a section header.
+ * @public
+ */
+export interface ModalEntryFormSchemaSection {
+  /** The section title. When undefined, no header is shown. */
+  title?: string;
+  /** The fields in the section. */
+  fields: ModalEntryFormSchemaField[];
+}
+
+/**
+ * A serializable description of a {@link ModalEntryFormDialog}, for example one sent from native code. Exactly one of
+ * fields and sections must be given.
+ * @public
+ */
+export interface ModalEntryFormSchema {
+  /** Title of the dialog. */
+  title: string;
+  /** Text to show on the OK button, default is "OK" (localized). */
+  okTitle?: string;
+  /** Text to show on the Cancel button, default is "Cancel" (localized). */
+  cancelTitle?: string;
+  /** The fields in the form. */
+  fields?: ModalEntryFormSchemaField[];
+  /** The fields in the form, grouped into sections. */
+  sections?: ModalEntryFormSchemaSection[];
+}
+
+/**
+ * The values entered into a form shown by {@link runModalEntryFormSchema}, keyed by field name. Fields without a value,
+ * including hidden fields, have a value of null.
+ * @public
+ */
+export type ModalEntryFormSchemaResult = Record<string, ModalEntryFormSchemaValue | null>;
+
+/**
+ * Error thrown by {@link validateModalEntryFormSchema} when a schema is malformed.
+ * @public
+ */
+export class ModalEntryFormSchemaError extends Error {
+  /** All of the problems found in the schema, each starting with the path to the problem, for example "fields[2].min". */
+  public readonly problems: string[];
+
+  public constructor(problems: string[]) {
+    super(`Invalid modal entry form schema:\n${problems.join("\n")}`);
+    this.name = "ModalEntryFormSchemaError";
+    this.problems = problems;
+  }
+}
+
+const fieldTypes: ModalEntryFormFieldType[] = ["text", "password", "email", "url", "multiline", "number", "checkbox", "switch", "select", "date"];
+const textFieldTypes: ModalEntryFormFieldType[] = ["text", "password", "email", "url", "multiline"];
+const schemaProperties = ["title", "okTitle", "cancelTitle", "fields", "sections"];
+const sectionProperties = ["title", "fields"];
+const fieldProperties = ["name", "type", "isRequired", "initialValue", "visibleWhen"];
+const textFieldProperties = [...fieldProperties, "autoTrim", "forbiddenCharacters", "pattern", "patternMessage", "minLength", "maxLength"];
+const numberFieldProperties = [...fieldProperties, "min", "max", "step"];
+const dateFieldProperties = [...fieldProperties, "min", "max"];
+const selectFieldProperties = [...fieldProperties, "options"];
+const conditionProperties = ["field", "equals", "notEquals", "oneOf"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSchemaValue(value: unknown): value is ModalEntryFormSchemaValue {
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+}
+
+/** Converts a "yyyy-mm-dd" string into a local Date, or undefined if it is not a valid date. */
+function parseSchemaDate(value: unknown) {
+  if (typeof value !== "string") return undefined;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  // Reject dates like 2024-02-31, which Date silently moves to the next month.
+  return date.getMonth() === Number(match[2]) - 1 ? date : undefined;
+}
+
+/** Converts a local Date into a "yyyy-mm-dd" string. */
+function formatSchemaDate(date: Date) {
+  const pad = (value: number) => `${value}`.padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function isRegExp(pattern: string) {
+  try {
+    return !!new RegExp(pattern);
+  } catch {
+    return false;
+  }
+}
+
+/** Checks the value of a field property, returning a description of what was expected if it is invalid. */
+type PropertyCheck = (value: unknown) => string | undefined;
+
+const isString: PropertyCheck = (value) => typeof value === "string" ? undefined : "expected a string";
+const isBoolean: PropertyCheck = (value) => typeof value === "boolean" ? undefined : "expected a boolean";
+const isNumber: PropertyCheck = (value) => typeof value === "number" && isFinite(value) ? undefined : "expected a number";
+const isDate: PropertyCheck = (value) => parseSchemaDate(value) ? undefined : "expected a date in yyyy-mm-dd format";
+const isLength: PropertyCheck = (value) => typeof value === "number" && Number.isInteger(value) && value >= 0 ? undefined : "expected a non-negative integer";
+
+function getFieldProblems(rawField: unknown, path: string, fieldNames: Set<string>): string[] {
+  if (!isRecord(rawField))
+    return [`${path}: expected an object`];
+  const field = rawField;
+  const problems: string[] = [];
+  const check = (key: string, propertyCheck: PropertyCheck) => {
+    if (field[key] === undefined) return;
+    const problem = propertyCheck(field[key]);
+    if (problem)
+      problems.push(`${path}.${key}: ${problem}`);
+  };
+
+  if (typeof field.name !== "string" || field.name === "")
+    problems.push(`${path}.name: expected a non-empty string`);
+  if (field.type !== undefined && !fieldTypes.includes(field.type as ModalEntryFormFieldType)) {
+    problems.push(`${path}.type: expected one of ${fieldTypes.join(", ")}`);
+    return problems;
+  }
+  const type = (field.type ?? "text") as ModalEntryFormFieldType;
+
+  let allowedProperties = fieldProperties;
+  check("isRequired", isBoolean);
+  if (textFieldTypes.includes(type)) {
+    allowedProperties = textFieldProperties;
+    check("initialValue", isString);
+    check("autoTrim", isBoolean);
+    check("forbiddenCharacters", (value) => typeof value === "string" || (Array.isArray(value) && value.every((item) => typeof item === "string")) ? undefined : "expected a string or an array of strings");
+    check("pattern", (value) => typeof value === "string" && isRegExp(value) ? undefined : "expected a valid regular expression");
+    check("patternMessage", isString);
+    check("minLength", isLength);
+    check("maxLength", isLength);
+  } else if (type === "number") {
+    allowedProperties = numberFieldProperties;
+    check("initialValue", isNumber);
+    check("min", isNumber);
+    check("max", isNumber);
+    check("step", (value) => typeof value === "number" && value > 0 ? undefined : "expected a positive number");
+  } else if (type === "date") {
+    allowedProperties = dateFieldProperties;
+    check("initialValue", isDate);
+    check("min", isDate);
+    check("max", isDate);
+  } else if (type === "select") {
+    allowedProperties = selectFieldProperties;
+    const options = field.options;
+    if (!Array.isArray(options) || options.length === 0) {
+      problems.push(`${path}.options: expected a non-empty array`);
+    } else {
+      options.forEach((option, index) => {
+        if (!isRecord(option) || typeof option.value !== "string" || (option.label !== undefined && typeof option.label !== "string"))
+          problems.push(`${path}.options[${index}]: expected an object with a string value and an optional string label`);
+      });
+      if (field.initialValue !== undefined && !options.some((option) => isRecord(option) && option.value === field.initialValue))
+        problems.push(`${path}.initialValue: expected the value of one of the options`);
+    }
+  } else {
+    check("initialValue", isBoolean);
+  }
+
+  const condition = field.visibleWhen;
+  if (condition !== undefined) {
+    if (!isRecord(condition)) {
+      problems.push(`${path}.visibleWhen: expected an object`);
+    } else {
+      if (typeof condition.field !== "string" || !fieldNames.has(condition.field) || condition.field === field.name)
+        problems.push(`${path}.visibleWhen.field: expected the name of another field in the form`);
+      if (condition.equals !== undefined && !isSchemaValue(condition.equals))
+        problems.push(`${path}.visibleWhen.equals: expected a string, number, or boolean`);
+      if (condition.notEquals !== undefined && !isSchemaValue(condition.notEquals))
+        problems.push(`${path}.visibleWhen.notEquals: expected a string, number, or boolean`);
+      if (condition.oneOf !== undefined && (!Array.isArray(condition.oneOf) || !condition.oneOf.every(isSchemaValue)))
+        problems.push(`${path}.visibleWhen.oneOf: expected an array of strings, numbers, and booleans`);
+      for (const key of Object.keys(condition).filter((conditionKey) => !conditionProperties.includes(conditionKey)))
+        problems.push(`${path}.visibleWhen.${key}: unknown property`);
+    }
+  }
+
+  for (const key of Object.keys(field).filter((fieldKey) => !allowedProperties.includes(fieldKey)))
+    problems.push(`${path}.${key}: unknown property for ${type} fields`);
+  return problems;
+}
+
+/**
+ * Checks that the given value is a well-formed {@link ModalEntryFormSchema}, for example after parsing JSON received
+ * from native code.
+ * @param schema - The value to check.
+ * @returns The schema.
+ * @throws {@link ModalEntryFormSchemaError} listing every problem found when the schema is malformed.
+ * @public
+ */
+export function validateModalEntryFormSchema(schema: unknown): ModalEntryFormSchema {
+  if (!isRecord(schema))
+    throw new ModalEntryFormSchemaError(["schema: expected an object"]);
+  const problems: string[] = [];
+  if (typeof schema.title !== "string")
+    problems.push("title: expected a string");
+  for (const key of ["okTitle", "cancelTitle"]) {
+    if (schema[key] !== undefined && typeof schema[key] !== "string")
+      problems.push(`${key}: expected a string`);
+  }
+  for (const key of Object.keys(schema).filter((schemaKey) => !schemaProperties.includes(schemaKey)))
+    problems.push(`${key}: unknown property`);
+
+  // Collect every field along with its path so that problems can be reported where they are.
+  const fields: Array<{ field: unknown, path: string }> = [];
+  if ((schema.fields === undefined) === (schema.sections === undefined)) {
+    problems.push("schema: expected exactly one of fields and sections");
+  } else if (schema.fields !== undefined) {
+    if (!Array.isArray(schema.fields))
+      problems.push("fields: expected an array");
+    else
+      schema.fields.forEach((field, index) => fields.push({ field, path: `fields[${index}]` }));
+  } else if (!Array.isArray(schema.sections)) {
+    problems.push("sections: expected an array");
+  } else {
+    schema.sections.forEach((section, sectionIndex) => {
+      const path = `sections[${sectionIndex}]`;
+      if (!isRecord(section) || !Array.isArray(section.fields)) {
+        problems.push(`${path}: expected an object with a fields array`);
+        return;
+      }
+      if (section.title !== undefined && typeof section.title !== "string")
+        problems.push(`${path}.title: expected a string`);
+      for (const key of Object.keys(section).filter((sectionKey) => !sectionProperties.includes(sectionKey)))
+        problems.push(`${path}.${key}: unknown property`);
+      section.fields.forEach((field, index) => fields.push({ field, path: `${path}.fields[${index}]` }));
+    });
+  }
+
+  const fieldNames = new Set<string>();
+  for (const { field, path } of fields) {
+    if (isRecord(field) && typeof field.name === "string") {
+      if (fieldNames.has(field.name))
+        problems.push(`${path}.name: duplicate field name "${field.name}"`);
+      fieldNames.add(field.name);
+    }
+  }
+  for (const { field, path } of fields)
+    problems.push(...getFieldProblems(field, path, fieldNames));
+
+  if (problems.length > 0)
+    throw new ModalEntryFormSchemaError(problems);
+  return schema as unknown as ModalEntryFormSchema;
+}
+
+/** A field in a schema, along with the title of its section. */
+interface SchemaFieldWithSection {
+  field: ModalEntryFormSchemaField;
+  section?: string;
+}
+
+/** Gets all of the fields in the schema, each with the title of its section. */
+function getSchemaFields(schema: ModalEntryFormSchema) {
+  return schema.fields?.map((field): SchemaFieldWithSection => ({ field })) ??
+    (schema.sections ?? []).reduce<SchemaFieldWithSection[]>((fields, section) => fields.concat(section.fields.map((field) => ({ field, section: section.title }))), []);
+}
+
+function isConditionMet(condition: ModalEntryFormSchemaCondition, value: ModalEntryFormValue<ModalEntryFormFieldValue> | undefined) {
+  let current = value?.value;
+  if (current instanceof Date)
+    current = formatSchemaDate(current);
+  if (condition.equals !== undefined && current !== condition.equals)
+    return false;
+  if (condition.notEquals !== undefined && current === condition.notEquals)
+    return false;
+  if (condition.oneOf !== undefined && (current === undefined || !condition.oneOf.includes(current)))
+    return false;
+  if (condition.equals === undefined && condition.notEquals === undefined && condition.oneOf === undefined)
+    return !!current;
+  return true;
+}
+
+function schemaFieldToProps(field: ModalEntryFormSchemaField, section: string | undefined, names: string[]): ModalEntryFormAnyFieldProps {
+  const { visibleWhen } = field;
+  const common = {
+    name: field.name,
+    isRequired: field.isRequired,
+    section,
+    isVisible: visibleWhen ? (values: ModalEntryFormValue<ModalEntryFormFieldValue>[]) => isConditionMet(visibleWhen, values[names.indexOf(visibleWhen.field)]) : undefined,
+  };
+  switch (field.type) {
+    case "number":
+      return { ...common, type: "number", initialValue: field.initialValue as number | undefined, min: field.min as number | undefined, max: field.max as number | undefined, step: field.step };
+    case "checkbox":
+    case "switch":
+      return { ...common, type: field.type, initialValue: field.initialValue as boolean | undefined };
+    case "select":
+      return { ...common, type: "select", initialValue: field.initialValue as string | undefined, options: field.options ?? [] };
+    case "date":
+      return { ...common, type: "date", initialValue: parseSchemaDate(field.initialValue), min: parseSchemaDate(field.min), max: parseSchemaDate(field.max) };
+    default: {
+      const validators: ModalEntryFormFieldValidator[] = [];
+      if (field.minLength !== undefined || field.maxLength !== undefined)
+        validators.push(ModalEntryFormValidators.textLength(field.minLength, field.maxLength));
+      if (field.pattern !== undefined)
+        validators.push(ModalEntryFormValidators.pattern(new RegExp(field.pattern), field.patternMessage));
+      return {
+        ...common,
+        type: field.type,
+        initialValue: field.initialValue as string | undefined,
+        autoTrim: field.autoTrim,
+        forbiddenCharacters: field.forbiddenCharacters,
+        validators,
+      };
+    }
+  }
+}
+
+/**
+ * Converts a {@link ModalEntryFormSchema} into the properties used by {@link ModalEntryFormDialog.run}.
+ * @param schema - The schema, which is validated with {@link validateModalEntryFormSchema}.
+ * @returns The properties for {@link ModalEntryFormDialog.run}.
+ * @throws {@link ModalEntryFormSchemaError} when the schema is malformed.
+ * @public
+ */
+export function loadModalEntryFormSchema(schema: unknown): ModalEntryFormDialogRunProps<ModalEntryFormAnyFieldProps[]> {
+  const { title, okTitle, cancelTitle, ...validSchema } = validateModalEntryFormSchema(schema);
+  const schemaFields = getSchemaFields(validSchema as ModalEntryFormSchema);
+  const names = schemaFields.map(({ field }) => field.name);
+  return {
+    title,
+    okTitle,
+    cancelTitle,
+    fields: schemaFields.map(({ field, section }) => schemaFieldToProps(field, section, names)),
+  };
+}
+
+/**
+ * Shows a {@link ModalEntryFormDialog} described by a {@link ModalEntryFormSchema}.
+ * @param schema - The schema, which is validated with {@link validateModalEntryFormSchema}.
+ * @returns The entered values keyed by field name, or undefined if the dialog was canceled.
+ * @throws {@link ModalEntryFormSchemaError} when the schema is malformed.
+ * @public
+ */
+export async function runModalEntryFormSchema(schema: unknown): Promise<ModalEntryFormSchemaResult | undefined> {
+  const props = loadModalEntryFormSchema(schema);
+  const values = await ModalEntryFormDialog.run<ModalEntryFormAnyFieldProps[]>(props);
+  if (!values)
+    return undefined;
+  const result: ModalEntryFormSchemaResult = {};
+  props.fields.forEach((field, index) => {
+    const value = values[index].value;
+    result[field.name] = value instanceof Date ? formatSchemaDate(value) : value ?? null;
+  });
+  return result;
+}
+
+/**
+ * Registers a {@link Messenger} query handler that shows a {@link ModalEntryFormDialog} described by the
+ * {@link ModalEntryFormSchema} sent by native code. The query's response is the {@link ModalEntryFormSchemaResult}, or
+ * null if the user canceled. When the schema is malformed, the query fails with the {@link ModalEntryFormSchemaError}.
+ * @param queryName - The name of the query, default "Bentley_ITM_presentModalEntryForm".
+ * @returns A function that removes the handler.
+ * @public
+ */
+export function registerModalEntryFormQueryHandler(queryName = "Bentley_ITM_presentModalEntryForm") {
+  const queryHandler = Messenger.onQuery(queryName);
+  queryHandler.setHandler(async (schema: unknown) => {
+    return (await runModalEntryFormSchema(schema)) ?? null;
+  });
+  return () => queryHandler.removeHandler();
+}
@@ -0,0 +1,172 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import * as React from "react";
+import classnames from "classnames";
+import { CommonProps } from "@itwin/core-react";
+import { BeUiEvent } from "@itwin/core-bentley";
+import { getCssVariableAsNumberOrDefault, MobileCore } from "@itwin/mobile-sdk-core";
+import { MobileUi, useBeUiEvent } from "./MobileUi";
+import { ModalDialog, ModalDialogPresentation, ModalDialogProps, ModalDialogStack } from "./ModalEntryFormDialog";
+import "./ModalProgressDialog.scss";
+
+/**
+ * A progress update for a {@link ModalProgressDialog}.
+ * @public
+ */
+export interface ModalProgressUpdate {
+  /**
+   * The progress from 0 to 1. When undefined, indeterminate progress is shown. Omit this property from an update to
+   * leave the progress unchanged.
+   */
+  progress?: number;
+  /** The status message. Omit this property from an update to leave the message unchanged. */
+  message?: string;
+}
+
+/**
+ * Callback used by an operation run with {@link ModalProgressDialog.run} to report its progress.
+ * @public
+ */
+export type ModalProgressReporter = (update: ModalProgressUpdate) => void;
+
+/**
+ * Properties for the {@link ModalProgressDialog} component.
+ * @public
+ */
+// @todo AppUI deprecation
+// eslint-disable-next-line @typescript-eslint/no-deprecated
+export interface ModalProgressDialogProps extends CommonProps {
+  /** Title of the dialog. */
+  title: string;
+  /** The status message shown above the progress bar. */
+  message?: string;
+  /** The progress from 0 to 1. When undefined, indeterminate progress is shown. */
+  progress?: number;
+  /** Text to show on the Cancel button, default is "Cancel" (localized). Ignored when onCancel is undefined. */
+  cancelTitle?: string;
+  /** Callback called when user taps the Cancel button. When undefined, there is no Cancel button. */
+  onCancel?: () => void;
+  /** Set to true to fade the dialog out. See {@link ModalDialogProps.isClosing}. */
+  isClosing?: boolean;
+}
+
+/**
+ * Properties passed to the {@link ModalProgressDialog.run} function.
+ * @public
+ */
+export interface ModalProgressDialogRunProps extends Omit<ModalProgressDialogProps, "onCancel" | "isClosing" | "progress"> {
+  /** The initial progress from 0 to 1, default is undefined (indeterminate). */
+  progress?: number;
+  /**
+   * Whether or not the operation can be canceled, default is false. When true, tapping Cancel aborts the AbortSignal
+   * passed to the operation and closes the dialog.
+   */
+  isCancelable?: boolean;
+  /** How the dialog is presented when other dialogs are already open, default is "stack". */
+  presentation?: ModalDialogPresentation;
+}
+
+/**
+ * A React component representing a modal dialog that shows the progress of a long operation, such as a briefcase
+ * download. Use {@link ModalProgressDialog.run} to show it while an operation runs.
+ * @public
+ */
+export function ModalProgressDialog(props: ModalProgressDialogProps) {
+  const { title, className, message, progress, cancelTitle, onCancel, isClosing } = props;
+  const isDeterminate = progress !== undefined;
+  const percent = isDeterminate ? Math.round(Math.min(Math.max(progress, 0), 1) * 100) : undefined;
+  return (
+    <ModalDialog
+      className={classnames("mui-modal-progress-dialog", className)}
+      title={title}
+      okTitle=""
+      cancelTitle={onCancel ? cancelTitle ?? MobileCore.translate("general.cancel") : ""}
+      onOK={async () => false}
+      onCancel={() => onCancel?.()}
+      isClosing={isClosing}
+    >
+      <div className="mui-modal-progress-message" aria-live="polite">{message}</div>
+      <div
+        className={classnames("mui-modal-progress-bar", !isDeterminate && "mui-modal-progress-bar-indeterminate")}
+        role="progressbar"
+        aria-label={message || title}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={percent}
+      >
+        <div className="mui-modal-progress-bar-fill" style={isDeterminate ? { width: `${percent}%` } : undefined} />
+      </div>
+      {isDeterminate && <div className="mui-modal-progress-percent">{MobileUi.translate("modal-progress.percent", { percent })}</div>}
+    </ModalDialog>
+  );
+}
+
+interface ModalProgressDialogRunnerProps {
+  dialogProps: ModalProgressDialogProps;
+  onChanged: BeUiEvent<ModalProgressDialogProps>;
+}
+
+/** Wrapper that re-renders the dialog opened by {@link ModalProgressDialog.run} each time its properties change. */
+function ModalProgressDialogRunner(props: ModalProgressDialogRunnerProps) {
+  const [dialogProps, setDialogProps] = React.useState(props.dialogProps);
+  useBeUiEvent(setDialogProps, props.onChanged);
+  return <ModalProgressDialog {...dialogProps} />;
+}
+
+/**
+ * A convenience function to show a {@link ModalProgressDialog} using `UiFramework.dialogs.modal` while the given
+ * operation runs. The dialog fades out when the operation finishes or the user cancels it.
+ * @public
+ * @param props The properties used to create the ModalProgressDialog component.
+ * @param operation The operation, which can report its progress using its first argument. Its second argument is
+ * aborted when the user taps Cancel or MobileUi is closed.
+ * @returns The result of the operation. When the operation fails (including by throwing because it was aborted), the
+ * returned Promise is rejected with the same error.
+ */
+ModalProgressDialog.run = async <T,>(props: ModalProgressDialogRunProps, operation: (report: ModalProgressReporter, signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const { isCancelable = false, presentation, ...theRest } = props;
+  const fadeDuration = getCssVariableAsNumberOrDefault("--mui-fade-duration", .5) * 1000;
+  const abortController = new AbortController();
+  const onChanged = new BeUiEvent<ModalProgressDialogProps>();
+  let id = "";
+  let isOpen = true;
+
+  const close = (delay: number) => {
+    if (!isOpen)
+      return;
+    isOpen = false;
+    ModalDialogStack.close(id, delay);
+  };
+  const onCancel = () => {
+    abortController.abort();
+    close(fadeDuration);
+  };
+  let dialogProps: ModalProgressDialogProps = { ...theRest, onCancel: isCancelable ? onCancel : undefined };
+  const update = (newProps: Partial<ModalProgressDialogProps>) => {
+    dialogProps = { ...dialogProps, ...newProps };
+    onChanged.emit(dialogProps);
+  };
+  const report: ModalProgressReporter = (progressUpdate) => {
+    if (isOpen)
+      update(progressUpdate);
+  };
+  const onClose = () => {
+    // Mobile UI is closing, so close the dialog immediately.
+    abortController.abort();
+    close(0);
+  };
+
+  MobileUi.onClose.addListener(onClose);
+  id = ModalDialogStack.open(<ModalProgressDialogRunner dialogProps={dialogProps} onChanged={onChanged} />, presentation);
+  try {
+    return await operation(report, abortController.signal);
+  } finally {
+    MobileUi.onClose.removeListener(onClose);
+    if (isOpen) {
+      update({ isClosing: true });
+      close(fadeDuration);
+    }
+  }
+};
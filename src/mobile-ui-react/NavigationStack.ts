@@ -0,0 +1,218 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import * as React from "react";
+import { BeUiEvent } from "@itwin/core-bentley";
+import { Messenger } from "@itwin/mobile-sdk-core";
+import { useBeUiEvent } from "./MobileUi";
+
+/**
+ * An entry in the {@link NavigationStack}.
+ * @public
+ */
+export interface NavigationStackEntry {
+  /** The id returned by {@link NavigationStack.push}. */
+  id: string;
+  /** An optional description of the entry, for debugging. */
+  label?: string;
+  /**
+   * Called when the user navigates back while this is the top entry. This should close the UI that pushed the entry,
+   * which then removes the entry with {@link NavigationStack.remove}. If the UI stays open, the entry stays on the stack.
+   */
+  onBack: () => void;
+}
+
+/**
+ * Arguments for the {@link NavigationStack.onChanged} event.
+ * @public
+ */
+export interface NavigationStackChangedArgs {
+  /** The number of entries on the stack. */
+  depth: number;
+}
+
+/** The history state used for the browser history entries that mirror the stack. */
+interface NavigationHistoryState {
+  muiNavigationId: string;
+}
+
+/**
+ * Class that keeps track of where "back" goes. Panels, dialogs, tab selections, and nested frontstages push an entry
+ * when they open (usually with {@link useNavigationEntry}) and remove it when they close. The system back button (from
+ * the native host via {@link NavigationStack.registerNativeQueryHandler}, or the browser's back button after
+ * {@link NavigationStack.enableBrowserHistory}) and `VisibleBackButton` go back to the top entry.
+ * @public
+ */
+export class NavigationStack {
+  private static _entries: NavigationStackEntry[] = [];
+  private static _nextId = 0;
+  private static _browserHistoryEnabled = false;
+  private static _ignoredPopStates = 0;
+  /** The ids of the entries whose browser history entries were already popped by the browser's back button. */
+  private static _poppedHistoryIds = new Set<string>();
+
+  /** BeUiEvent emitted when an entry is pushed or removed. */
+  public static readonly onChanged = new BeUiEvent<NavigationStackChangedArgs>();
+
+  /** The number of entries on the stack. */
+  public static get depth() {
+    return this._entries.length;
+  }
+
+  /** The entries on the stack, from bottom to top. */
+  public static get entries(): readonly NavigationStackEntry[] {
+    return this._entries;
+  }
+
+  /**
+   * Pushes an entry onto the stack.
+   * @param onBack - Called when the user navigates back while this is the top entry.
+   * @param label - An optional description of the entry, for debugging.
+   * @returns The id of the entry, to pass to {@link NavigationStack.remove}.
+   */
+  public static push(onBack: () => void, label?: string) {
+    const id = `mui-navigation-${++this._nextId}`;
+    this._entries.push({ id, label, onBack });
+    this.pushHistoryState(id);
+    this.emitChanged();
+    return id;
+  }
+
+  /**
+   * Removes an entry from the stack, for example because the UI that pushed it was closed.
+   * @param id - The id returned by {@link NavigationStack.push}.
+   */
+  public static remove(id: string) {
+    const index = this._entries.findIndex((entry) => entry.id === id);
+    if (index === -1)
+      return;
+    const isTop = index === this._entries.length - 1;
+    this._entries.splice(index, 1);
+    if (this._poppedHistoryIds.has(id)) {
+      this._poppedHistoryIds.delete(id);
+      this.skipRemovedHistoryStates();
+    } else if (isTop && this._browserHistoryEnabled && this.isHistoryStateFor(id)) {
+      // Remove the browser history entry too, so that the browser's back button does not need to be pressed twice.
+      ++this._ignoredPopStates;
+      window.history.back();
+    }
+    this.emitChanged();
+  }
+
+  /**
+   * Goes back to the top entry by calling its onBack callback.
+   * @returns true if there was an entry to go back to, false otherwise (in which case the host can, for example, exit
+   * the app).
+   */
+  public static goBack() {
+    const entry = this._entries[this._entries.length - 1];
+    if (!entry)
+      return false;
+    entry.onBack();
+    return true;
+  }
+
+  /**
+   * Registers a {@link Messenger} query handler for the native host to report that the system back button was pressed
+   * or the back gesture was made. The query responds with true if the back was handled, and false if there was nothing
+   * to go back to.
+   * @param queryName - The name of the query, default "Bentley_ITM_backPressed".
+   * @returns A function that removes the handler.
+   */
+  public static registerNativeQueryHandler(queryName = "Bentley_ITM_backPressed") {
+    const queryHandler = Messenger.onQuery(queryName);
+    queryHandler.setHandler(async () => this.goBack());
+    return () => queryHandler.removeHandler();
+  }
+
+  /**
+   * Mirrors the stack in the browser history, so that the browser's back button (or `popstate` from any other source)
+   * goes back to the top entry.
+   * @returns A function that stops mirroring the stack.
+   */
+  public static enableBrowserHistory() {
+    if (!this._browserHistoryEnabled) {
+      this._browserHistoryEnabled = true;
+      window.addEventListener("popstate", this._onPopState);
+      this._entries.forEach((entry) => this.pushHistoryState(entry.id));
+    }
+    return () => {
+      this._browserHistoryEnabled = false;
+      window.removeEventListener("popstate", this._onPopState);
+    };
+  }
+
+  private static pushHistoryState(id: string) {
+    if (this._browserHistoryEnabled) {
+      const state: NavigationHistoryState = { muiNavigationId: id };
+      window.history.pushState(state, "");
+    }
+  }
+
+  /**
+   * Goes back past the browser history entries of entries that were removed while they were not on top, since the
+   * browser history cannot remove entries from the middle.
+   */
+  private static skipRemovedHistoryStates() {
+    const id = (window.history.state as NavigationHistoryState | null)?.muiNavigationId;
+    if (!this._browserHistoryEnabled || id === undefined || this._entries.some((entry) => entry.id === id))
+      return;
+    ++this._ignoredPopStates;
+    window.history.back();
+  }
+
+  private static isHistoryStateFor(id: string) {
+    return (window.history.state as NavigationHistoryState | null)?.muiNavigationId === id;
+  }
+
+  private static _onPopState = () => {
+    if (NavigationStack._ignoredPopStates > 0) {
+      --NavigationStack._ignoredPopStates;
+      NavigationStack.skipRemovedHistoryStates();
+      return;
+    }
+    const entry = [...NavigationStack._entries].reverse().find((e) => !NavigationStack._poppedHistoryIds.has(e.id));
+    // Landing on the entry's own browser history entry means that a history entry added by something else (such as a
+    // HashPanelLocationStore) was popped, so this is not a back for the entry.
+    if (!entry || NavigationStack.isHistoryStateFor(entry.id))
+      return;
+    // The UI usually closes asynchronously, so remember that its browser history entry is already gone.
+    NavigationStack._poppedHistoryIds.add(entry.id);
+    entry.onBack();
+  };
+
+  private static emitChanged() {
+    this.onChanged.emit({ depth: this._entries.length });
+  }
+}
+
+/**
+ * Custom React hook that keeps an entry on the {@link NavigationStack} while the given condition is true, for example
+ * while a panel or dialog is open.
+ * @param isActive - Whether or not the entry should be on the stack.
+ * @param onBack - Called when the user navigates back while the entry is on top. This should make isActive false.
+ * @param label - An optional description of the entry, for debugging.
+ * @public
+ */
+export function useNavigationEntry(isActive: boolean, onBack: () => void, label?: string) {
+  const onBackRef = React.useRef(onBack);
+  onBackRef.current = onBack;
+
+  React.useEffect(() => {
+    if (!isActive)
+      return;
+    const id = NavigationStack.push(() => onBackRef.current(), label);
+    return () => NavigationStack.remove(id);
+  }, [isActive, label]);
+}
+
+/**
+ * Custom React hook that returns the number of entries on the {@link NavigationStack}.
+ * @public
+ */
+export function useNavigationStackDepth() {
+  const [depth, setDepth] = React.useState(NavigationStack.depth);
+  useBeUiEvent(React.useCallback((args: NavigationStackChangedArgs) => setDepth(args.depth), []), NavigationStack.onChanged);
+  return depth;
+}
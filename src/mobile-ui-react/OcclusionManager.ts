@@ -0,0 +1,251 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import * as React from "react";
+import { BeEvent } from "@itwin/core-bentley";
+import { IModelApp, ScreenViewport } from "@itwin/core-frontend";
+import { getCssVariableAsNumber } from "@itwin/mobile-sdk-core";
+import { BottomPanelEvents, BottomPanelOpenCloseArgs, BottomPanelResizeArgs, BottomPanelResizingArgs, getOpenBottomPanelRects, getOpenBottomPanels } from "./BottomPanel";
+import { KeyboardChangedArgs, KeyboardTracker } from "./KeyboardTracker";
+import { PanTracker, panViewportTo } from "./PanViewport";
+
+/** Type used for OcclusionManager.onUnobstructedRectChanged BeEvent. */
+export type UnobstructedRectChangedListener = (unobstructedRect: DOMRect) => void;
+
+/**
+ * Gets the rectangle that remains of rect after removing the part covered by occluder. Since occluders are expected to
+ * be attached to an edge of the screen, the largest of the four rectangles above, below, to the left, and to the right
+ * of occluder is used.
+ */
+function removeOccludedRect(rect: DOMRect, occluder: DOMRect) {
+  if (occluder.width <= 0 || occluder.height <= 0 || occluder.right <= rect.left || occluder.left >= rect.right || occluder.bottom <= rect.top || occluder.top >= rect.bottom)
+    return rect;
+  const candidates = [
+    new DOMRect(rect.left, rect.top, rect.width, Math.max(occluder.top - rect.top, 0)),
+    new DOMRect(rect.left, occluder.bottom, rect.width, Math.max(rect.bottom - occluder.bottom, 0)),
+    new DOMRect(rect.left, rect.top, Math.max(occluder.left - rect.left, 0), rect.height),
+    new DOMRect(occluder.right, rect.top, Math.max(rect.right - occluder.right, 0), rect.height),
+  ];
+  return candidates.reduce((best, candidate) => candidate.width * candidate.height > best.width * best.height ? candidate : best);
+}
+
+/** Gets the occluded rectangle from the given panel event, using the bounds of the panel when the event does not include it. */
+function getOccludedRect(args: { div?: HTMLDivElement | null, occludedRect?: DOMRect }) {
+  return args.occludedRect ?? args.div?.getBoundingClientRect();
+}
+
+/**
+ * Class that keeps the center of the selected viewport in the area of the screen that is not covered by open panels,
+ * the tab bar, and the virtual keyboard. Once enabled, every open panel's occluded rectangle is collected from
+ * {@link BottomPanelEvents}, the keyboard height from {@link KeyboardTracker}, and the selected viewport is panned so
+ * that its center stays in the unobstructed area. Other components can contribute their own occluded rectangles using
+ * {@link OcclusionManager.setOccludedRect}.
+ * @public
+ */
+export class OcclusionManager {
+  private static _isEnabled = false;
+  private static _occludedRects = new Map<unknown, DOMRect>();
+  private static _resizingTimer?: ReturnType<typeof setTimeout>;
+  /** The key used in _occludedRects for the virtual keyboard. */
+  private static _keyboardKey = {};
+
+  /** The animation time in ms used when panning the viewport, default 500. */
+  public static animationTime = 500;
+  /** The time in ms to wait after the last {@link BottomPanelEvents.onResizing} event before panning, default 100. */
+  public static resizingDebounceTime = 100;
+  /** BeEvent raised when the unobstructed area of the screen changes. */
+  public static readonly onUnobstructedRectChanged = new BeEvent<UnobstructedRectChangedListener>();
+
+  /** Whether or not the occlusion manager is enabled. */
+  public static get isEnabled() {
+    return this._isEnabled;
+  }
+
+  /**
+   * Enables the occlusion manager, panning the selected viewport as panels open, close, and resize.
+   * Note: this replaces any manual calls to {@link panViewportTo} made in response to {@link BottomPanelEvents}.
+   */
+  public static enable() {
+    if (this._isEnabled)
+      return;
+    this._isEnabled = true;
+    BottomPanelEvents.onOpen.addListener(this._onOpen);
+    BottomPanelEvents.onClose.addListener(this._onClose);
+    BottomPanelEvents.onResize.addListener(this._onResize);
+    BottomPanelEvents.onResizing.addListener(this._onResizing);
+    IModelApp.viewManager.onViewOpen.addListener(this._onViewChanged);
+    IModelApp.viewManager.onSelectedViewportChanged.addListener(this._onViewChanged);
+    window.addEventListener("resize", this._onWindowResize);
+    KeyboardTracker.initialize();
+    KeyboardTracker.onKeyboardChanged.addListener(this._onKeyboardChanged);
+    // Panels that were opened before the occlusion manager was enabled do not send another open event.
+    for (const { div, rect } of getOpenBottomPanels()) {
+      this._occludedRects.set(div, rect);
+    }
+    this.setKeyboardHeight(KeyboardTracker.height);
+  }
+
+  /** Disables the occlusion manager, panning the selected viewport back to its unpanned location. */
+  public static disable() {
+    if (!this._isEnabled)
+      return;
+    this._isEnabled = false;
+    BottomPanelEvents.onOpen.removeListener(this._onOpen);
+    BottomPanelEvents.onClose.removeListener(this._onClose);
+    BottomPanelEvents.onResize.removeListener(this._onResize);
+    BottomPanelEvents.onResizing.removeListener(this._onResizing);
+    IModelApp.viewManager.onViewOpen.removeListener(this._onViewChanged);
+    IModelApp.viewManager.onSelectedViewportChanged.removeListener(this._onViewChanged);
+    window.removeEventListener("resize", this._onWindowResize);
+    KeyboardTracker.onKeyboardChanged.removeListener(this._onKeyboardChanged);
+    this.cancelResizingTimer();
+    this._occludedRects.clear();
+    const vp = IModelApp.viewManager.selectedView;
+    const panTracker = PanTracker.get(vp);
+    if (panTracker.x !== 0 || panTracker.y !== 0)
+      panViewportTo(vp, 0, 0, this.animationTime);
+  }
+
+  /**
+   * Sets or clears the screen rectangle occluded by a component.
+   * @param key - A key that uniquely identifies the occluding component.
+   * @param rect - The screen rectangle covered by the component, or undefined if it no longer covers anything.
+   */
+  public static setOccludedRect(key: unknown, rect: DOMRect | undefined) {
+    if (rect)
+      this._occludedRects.set(key, rect);
+    else
+      this._occludedRects.delete(key);
+    this.update();
+  }
+
+  /**
+   * Gets the screen rectangle of the given viewport that is not covered by open panels, the tab bar, or the virtual
+   * keyboard.
+   * @param vp - The viewport to check, default is the selected viewport. When there is no viewport, the window is used.
+   * @returns The unobstructed screen rectangle.
+   */
+  public static getUnobstructedRect(vp?: ScreenViewport) {
+    const parentDiv = (vp ?? IModelApp.viewManager.selectedView)?.parentDiv;
+    let rect = parentDiv ? parentDiv.getBoundingClientRect() : new DOMRect(0, 0, window.innerWidth, window.innerHeight);
+    const tabBarHeight = getCssVariableAsNumber("--mui-current-tab-bar-height");
+    if (tabBarHeight > 0) {
+      const tabBarTotalHeight = tabBarHeight + getCssVariableAsNumber("--itm-safe-area-bottom");
+      rect = removeOccludedRect(rect, new DOMRect(0, window.innerHeight - tabBarTotalHeight, window.innerWidth, tabBarTotalHeight));
+    }
+    for (const occludedRect of this._occludedRects.values()) {
+      rect = removeOccludedRect(rect, occludedRect);
+    }
+    return rect;
+  }
+
+  /**
+   * Gets the screen rectangle of the given viewport that is visible to the user. In addition to the areas excluded by
+   * {@link OcclusionManager.getUnobstructedRect}, this excludes all open panels (even when the occlusion manager is not
+   * enabled), the navigation panel, and the safe areas.
+   * @param vp - The viewport to check.
+   * @returns The visible screen rectangle.
+   */
+  public static getVisibleRect(vp: ScreenViewport) {
+    let rect = this.getUnobstructedRect(vp);
+    for (const panelRect of getOpenBottomPanelRects()) {
+      rect = removeOccludedRect(rect, panelRect);
+    }
+    document.querySelectorAll<HTMLElement>(".mui-navigation-panel").forEach((navigationPanel) => {
+      rect = removeOccludedRect(rect, navigationPanel.getBoundingClientRect());
+    });
+    const safeLeft = getCssVariableAsNumber("--itm-safe-area-left");
+    const safeTop = getCssVariableAsNumber("--itm-safe-area-top");
+    const left = Math.max(rect.left, safeLeft);
+    const top = Math.max(rect.top, safeTop);
+    const right = Math.min(rect.right, window.innerWidth - getCssVariableAsNumber("--itm-safe-area-right"));
+    const bottom = Math.min(rect.bottom, window.innerHeight - getCssVariableAsNumber("--itm-safe-area-bottom"));
+    return new DOMRect(left, top, Math.max(right - left, 0), Math.max(bottom - top, 0));
+  }
+
+  /**
+   * Pans the selected viewport so that its center is in the unobstructed area. This is called automatically while the
+   * occlusion manager is enabled, but can be called if something that affects the unobstructed area changes without an event.
+   * @param animationTime - The animation time in ms, default {@link OcclusionManager.animationTime}.
+   */
+  public static update(animationTime = this.animationTime) {
+    if (!this._isEnabled)
+      return;
+    this.cancelResizingTimer();
+    const vp = IModelApp.viewManager.selectedView;
+    const unobstructedRect = this.getUnobstructedRect(vp);
+    this.onUnobstructedRectChanged.raiseEvent(unobstructedRect);
+    if (!vp?.parentDiv)
+      return;
+    const vpRect = vp.parentDiv.getBoundingClientRect();
+    const x = Math.round((vpRect.left + vpRect.width / 2) - (unobstructedRect.left + unobstructedRect.width / 2));
+    const y = Math.round((vpRect.top + vpRect.height / 2) - (unobstructedRect.top + unobstructedRect.height / 2));
+    const panTracker = PanTracker.get(vp);
+    if (x !== panTracker.x || y !== panTracker.y)
+      panViewportTo(vp, x, y, animationTime);
+  }
+
+  private static setKeyboardHeight(height: number) {
+    this.setOccludedRect(this._keyboardKey, height > 0 ? new DOMRect(0, window.innerHeight - height, window.innerWidth, height) : undefined);
+  }
+
+  private static cancelResizingTimer() {
+    if (this._resizingTimer !== undefined) {
+      clearTimeout(this._resizingTimer);
+      this._resizingTimer = undefined;
+    }
+  }
+
+  private static _onOpen = (args: BottomPanelOpenCloseArgs) => {
+    OcclusionManager.setOccludedRect(args.div, getOccludedRect(args));
+  };
+
+  private static _onClose = (args: BottomPanelOpenCloseArgs) => {
+    OcclusionManager.setOccludedRect(args.div, undefined);
+  };
+
+  private static _onResize = (args: BottomPanelResizeArgs) => {
+    // Resize events are also emitted for panels that auto-close; those will be followed by a close event.
+    OcclusionManager.setOccludedRect(args.div, getOccludedRect(args));
+  };
+
+  private static _onResizing = (args: BottomPanelResizingArgs) => {
+    // Panning while the user is dragging is distracting, so wait until the dragging pauses.
+    const occludedRect = getOccludedRect(args);
+    if (occludedRect)
+      OcclusionManager._occludedRects.set(args.div, occludedRect);
+    OcclusionManager.cancelResizingTimer();
+    OcclusionManager._resizingTimer = setTimeout(() => {
+      OcclusionManager._resizingTimer = undefined;
+      OcclusionManager.update();
+    }, OcclusionManager.resizingDebounceTime);
+  };
+
+  private static _onKeyboardChanged = (args: KeyboardChangedArgs) => {
+    OcclusionManager.setKeyboardHeight(args.height);
+  };
+
+  private static _onViewChanged = () => {
+    OcclusionManager.update(0);
+  };
+
+  private static _onWindowResize = () => {
+    // The keyboard's rectangle depends on the window size; this also updates the viewport.
+    OcclusionManager.setKeyboardHeight(KeyboardTracker.height);
+  };
+}
+
+/**
+ * Custom React hook that enables the {@link OcclusionManager} while the calling component is mounted.
+ * @param enabled - Whether or not the occlusion manager should be enabled, default true.
+ * @public
+ */
+export function useOcclusionManager(enabled = true) {
+  React.useEffect(() => {
+    if (!enabled)
+      return;
+    OcclusionManager.enable();
+    return () => OcclusionManager.disable();
+  }, [enabled]);
+}
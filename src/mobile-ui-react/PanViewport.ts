@@ -2,7 +2,8 @@
 * Copyright (c) Bentley Systems, Incorporated. All rights reserved.
 * See LICENSE.md in the project root for license terms and full copyright notice.
 *--------------------------------------------------------------------------------------------*/
-import { Point3d, SmoothTransformBetweenFrusta, Transform } from "@itwin/core-geometry";
+import { BeUiEvent } from "@itwin/core-bentley";
+import { Point3d, SmoothTransformBetweenFrusta, Transform, XAndY } from "@itwin/core-geometry";
 import { Easing, Frustum, Tweens } from "@itwin/core-common";
 import { SessionStateActionId, SyncUiEventDispatcher, UiFramework, UiSyncEventArgs } from "@itwin/appui-react";
 import { Animator, IModelApp, ScreenViewport, ViewAnimationOptions } from "@itwin/core-frontend";
@@ -12,7 +13,7 @@ import { Animator, IModelApp, ScreenViewport, ViewAnimationOptions } from "@itwi
  * This class came from Keith Bentley, who dug it out of old iModelJS code.
  * @internal
  */
-class InterpolateFrustumAnimator implements Animator {
+export class InterpolateFrustumAnimator implements Animator {
   private readonly _currFrustum = new Frustum();
   private _interpolator?: SmoothTransformBetweenFrusta;
   private _tweens = new Tweens();
@@ -49,96 +50,216 @@ class InterpolateFrustumAnimator implements Animator {
 }
 
 /**
- * Class to track the current pan offset at any given time.
+ * Type for arguments sent to {@link PanTracker.onPanOffsetChanged}.
+ * @public
+ */
+export interface PanOffsetChangedArgs {
+  /** The viewport whose pan offset changed. */
+  vp: ScreenViewport;
+  /** The new pan offset in X. */
+  x: number;
+  /** The new pan offset in Y. */
+  y: number;
+}
+
+/**
+ * Class to track the current pan offset of each open viewport at any given time.
+ *
+ * Pan offsets follow viewports: when a viewport closes (for example, because a different iModel is being opened), its
+ * offset is recorded and applied to the next viewport that opens in the same parent div. Pan requests made when there
+ * is no viewport are applied to the next viewport that opens.
+ * @public
  */
 export class PanTracker {
-  private static _panTrackers: { [key: string]: PanTracker } = {};
+  /** The key used for pending trackers that apply to the next viewport that opens in any parent div. */
+  private static readonly _anyDivKey = "";
+  private static _viewportTrackers = new Map<ScreenViewport, PanTracker>();
+  private static _pendingTrackers = new Map<string, PanTracker>();
+  private static _isInitialized = false;
   private _vpParentDivId: string;
-  public x = 0;
-  public y = 0;
+  private _vp?: ScreenViewport;
+  private _x = 0;
+  private _y = 0;
+  /** The pan offset in X to apply when a viewport opens. */
   public nextX = 0;
+  /** The pan offset in Y to apply when a viewport opens. */
   public nextY = 0;
 
-  private constructor(vpParentDivId: string) {
+  /** BeUiEvent raised when the pan offset of a viewport changes. */
+  public static readonly onPanOffsetChanged = new BeUiEvent<PanOffsetChangedArgs>();
+
+  private constructor(vpParentDivId: string, vp?: ScreenViewport) {
     this._vpParentDivId = vpParentDivId;
-    IModelApp.viewManager.onViewOpen.addListener(this._onViewOpen);
-    IModelApp.viewManager.onViewClose.addListener(this._onViewClose);
-    SyncUiEventDispatcher.onSyncUiEvent.addListener(this._onSyncUi);
+    this._vp = vp;
   }
 
+  /** The id of the parent div of the tracked viewport. */
   public get vpParentDivId() {
     return this._vpParentDivId;
   }
 
+  /** The tracked viewport, or undefined if this tracks a pan request for a viewport that is not yet open. */
+  public get vp() {
+    return this._vp;
+  }
+
+  /**
+   * The current pan offset in X. Setting this is the same as calling {@link PanTracker.setOffset} with the current
+   * offset in Y.
+   */
+  public get x() {
+    return this._x;
+  }
+  public set x(x: number) {
+    this.setOffset(x, this._y);
+  }
+
+  /**
+   * The current pan offset in Y. Setting this is the same as calling {@link PanTracker.setOffset} with the current
+   * offset in X.
+   */
+  public get y() {
+    return this._y;
+  }
+  public set y(y: number) {
+    this.setOffset(this._x, y);
+  }
+
+  /**
+   * Record the pan offset of the tracked viewport, emitting {@link PanTracker.onPanOffsetChanged} if it changed. This
+   * does not change the viewport; use {@link panViewportTo} for that.
+   * @param x - The new pan offset in X.
+   * @param y - The new pan offset in Y.
+   */
+  public setOffset(x: number, y: number) {
+    if (x === this._x && y === this._y)
+      return;
+    this._x = x;
+    this._y = y;
+    if (this._vp)
+      PanTracker.onPanOffsetChanged.emit({ vp: this._vp, x, y });
+  }
+
+  private static initialize() {
+    if (this._isInitialized)
+      return;
+    this._isInitialized = true;
+    IModelApp.viewManager.onViewOpen.addListener(this._onViewOpen);
+    IModelApp.viewManager.onViewClose.addListener(this._onViewClose);
+    SyncUiEventDispatcher.onSyncUiEvent.addListener(this._onSyncUi);
+  }
+
   // @todo AppUI deprecation
   // eslint-disable-next-line @typescript-eslint/no-deprecated
-  private _onSyncUi = (args: UiSyncEventArgs) => {
+  private static _onSyncUi = (args: UiSyncEventArgs) => {
     // @todo AppUI deprecation
     // eslint-disable-next-line @typescript-eslint/no-deprecated
-    if (args.eventIds.has(SessionStateActionId.SetIModelConnection) && this._vpParentDivId) {
-      let panTracker = PanTracker.getWithKey(this._vpParentDivId);
-      const nextX = panTracker.nextX;
-      const nextY = panTracker.nextY;
-      panTracker.detach();
-      if (UiFramework.getIModelConnection() && (nextX !== 0 || nextY !== 0)) {
-        let vpFound = false;
-        if (IModelApp.viewManager.getFirstOpenView()) {
-          // I don't think it's possible to get here, but just in case, do the right thing.
-          for (const vp of IModelApp.viewManager) {
-            if (vp.parentDiv?.id === this._vpParentDivId) {
-              panViewportTo(vp, nextX, nextY);
-              vpFound = true;
-            }
-          }
-        }
-        if (!vpFound) {
-          // It's expected that when an iModel is opened, there isn't yet a viewport for it to display into. So store
-          // the nextX and nextY values in a new singleton PanTracker so that they will be applied when the viewport
-          // does get opened.
-          panTracker = PanTracker.getWithKey(this._vpParentDivId);
-          panTracker.nextX = nextX;
-          panTracker.nextY = nextY;
-        }
-      }
+    if (!args.eventIds.has(SessionStateActionId.SetIModelConnection))
+      return;
+    const iModel = UiFramework.getIModelConnection();
+    if (!iModel) {
+      PanTracker._pendingTrackers.clear();
+      return;
+    }
+    for (const vp of Array.from(PanTracker._viewportTrackers.keys())) {
+      // It's expected that when an iModel is opened, there isn't yet a viewport for it to display into. So record the
+      // offsets of any viewports still showing a different iModel so that they are applied when the new viewport opens.
+      if (vp.iModel !== iModel)
+        PanTracker.makePending(vp);
     }
   };
 
-  private static getDivId(vpParentDiv?: HTMLDivElement) {
-    return vpParentDiv ? vpParentDiv.id : "imodel-viewport";
+  private static _onViewOpen = (vp: ScreenViewport) => {
+    const panTracker = PanTracker.get(vp);
+    if (panTracker.nextX !== 0 || panTracker.nextY !== 0) {
+      const { nextX, nextY } = panTracker;
+      panTracker.nextX = panTracker.nextY = 0;
+      panViewportTo(vp, nextX, nextY);
+    }
+  };
+
+  private static _onViewClose = (vp: ScreenViewport) => {
+    if (UiFramework.getIModelConnection())
+      PanTracker.makePending(vp);
+    else
+      PanTracker._viewportTrackers.delete(vp);
+  };
+
+  /** Stop tracking the given viewport, recording its offset to be applied to the next viewport in the same parent div. */
+  private static makePending(vp: ScreenViewport) {
+    const panTracker = this._viewportTrackers.get(vp);
+    if (!panTracker)
+      return;
+    this._viewportTrackers.delete(vp);
+    const x = panTracker.nextX || panTracker.x;
+    const y = panTracker.nextY || panTracker.y;
+    if (x !== 0 || y !== 0) {
+      const pendingTracker = this.getPending(panTracker.vpParentDivId);
+      pendingTracker.nextX = x;
+      pendingTracker.nextY = y;
+    }
   }
 
-  private static getWithKey(key: string) {
-    if (!this._panTrackers[key]) {
-      this._panTrackers[key] = new PanTracker(key);
+  private static getPending(key: string) {
+    let panTracker = this._pendingTrackers.get(key);
+    if (!panTracker) {
+      panTracker = new PanTracker(key);
+      this._pendingTrackers.set(key, panTracker);
     }
-    return this._panTrackers[key];
+    return panTracker;
   }
 
+  /**
+   * Gets the tracker for the given viewport.
+   * @param vp - The viewport, or undefined to get the tracker for pan requests that apply to the next viewport that opens.
+   * @returns The tracker.
+   */
   public static get(vp?: ScreenViewport): PanTracker {
-    return this.getWithKey(this.getDivId(vp?.parentDiv));
+    this.initialize();
+    if (!vp)
+      return this.getPending(this._anyDivKey);
+    let panTracker = this._viewportTrackers.get(vp);
+    if (!panTracker) {
+      const divId = vp.parentDiv?.id ?? this._anyDivKey;
+      panTracker = new PanTracker(divId, vp);
+      // Adopt any pan request made for this viewport's parent div (or any viewport) before the viewport was open.
+      const pendingTracker = this._pendingTrackers.get(divId) ?? this._pendingTrackers.get(this._anyDivKey);
+      if (pendingTracker) {
+        panTracker.nextX = pendingTracker.nextX;
+        panTracker.nextY = pendingTracker.nextY;
+        this._pendingTrackers.delete(pendingTracker.vpParentDivId);
+      }
+      this._viewportTrackers.set(vp, panTracker);
+    }
+    return panTracker;
   }
 
-  private detach() {
-    IModelApp.viewManager.onViewOpen.removeListener(this._onViewOpen);
-    IModelApp.viewManager.onViewClose.removeListener(this._onViewClose);
-    SyncUiEventDispatcher.onSyncUiEvent.removeListener(this._onSyncUi);
-    delete PanTracker._panTrackers[this._vpParentDivId];
+  /**
+   * Gets the current pan offset of the given viewport.
+   * @param vp - The viewport.
+   * @returns The pan offset, which is 0,0 if the viewport has not been panned.
+   */
+  public static getOffset(vp: ScreenViewport): XAndY {
+    const panTracker = this._viewportTrackers.get(vp);
+    return { x: panTracker?.x ?? 0, y: panTracker?.y ?? 0 };
   }
 
-  private _onViewOpen = (vp: ScreenViewport) => {
-    if (vp.parentDiv?.id === this._vpParentDivId) {
-      PanTracker.get(vp).detach();
-      if (this.nextX !== 0 || this.nextY !== 0) {
-        panViewportTo(vp, this.nextX, this.nextY);
-      }
+  /**
+   * Forget the pan offset of the given viewport without changing the viewport. Use this after setting up a viewport's
+   * view from scratch. To pan the viewport back to its original location, use {@link panViewportTo} with 0,0.
+   * @param vp - The viewport, or undefined to cancel pan requests made when there was no viewport.
+   */
+  public static reset(vp?: ScreenViewport) {
+    if (!vp) {
+      this._pendingTrackers.clear();
+      return;
     }
-  };
-
-  private _onViewClose = (vp: ScreenViewport) => {
-    if (vp.parentDiv?.id === this._vpParentDivId) {
-      PanTracker.get(vp).detach();
-    }
-  };
+    const panTracker = this._viewportTrackers.get(vp);
+    if (!panTracker)
+      return;
+    panTracker.nextX = panTracker.nextY = 0;
+    panTracker.setOffset(0, 0);
+  }
 }
 
 /**
@@ -152,15 +273,13 @@ export function panViewportTo(vp: ScreenViewport | undefined, newX: number, newY
   const panTracker = PanTracker.get(vp);
   if (!vp) {
     // Record the pan request so that once a viewport does get opened, it will be panned to the right place.
-    PanTracker.get();
     panTracker.nextX = newX;
     panTracker.nextY = newY;
     return;
   }
   const x = newX - panTracker.x;
   const y = newY - panTracker.y;
-  panTracker.x = newX;
-  panTracker.y = newY;
+  panTracker.setOffset(newX, newY);
   // Abort any ongoing animations before doing anything else. Otherwise, the positions we read for the "old" locations
   // can be mid-stream in an animation, and that will produce incorrect results.
   vp.setAnimator(undefined);
@@ -0,0 +1,221 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { BeEvent } from "@itwin/core-bentley";
+import { Messenger } from "@itwin/mobile-sdk-core";
+import { NavigationStack } from "./NavigationStack";
+
+/**
+ * Parameters of a panel location, for example the id of the element whose properties are shown.
+ * @public
+ */
+export interface PanelParams {
+  [key: string]: string;
+}
+
+/**
+ * The selected tab or stand-alone panel, along with its parameters.
+ * @public
+ */
+export interface PanelLocation {
+  /** The label of the selected tab or stand-alone panel, or undefined if none is selected. */
+  panel?: string;
+  /** The parameters of the panel. */
+  params: PanelParams;
+}
+
+/**
+ * Type used for the {@link PanelLocationStore.onChanged} BeEvent.
+ * @public
+ */
+export type PanelLocationListener = (location: PanelLocation) => void;
+
+/**
+ * A place to keep the current {@link PanelLocation}, such as the URL hash. Used by `useTabsAndStandAlonePanels` for
+ * routing.
+ * @public
+ */
+export interface PanelLocationStore {
+  /** The current location. */
+  readonly location: PanelLocation;
+  /**
+   * Sets the location because the user changed the selected panel. This does not emit onChanged.
+   * @param location - The new location.
+   * @param replace - true to replace the current history entry, false to add a new one.
+   */
+  setLocation(location: PanelLocation, replace: boolean): void;
+  /**
+   * Goes to the given location from outside of the UI, for example from a deep link. This adds a history entry and
+   * emits onChanged.
+   * @param location - The location to go to.
+   */
+  navigate(location: PanelLocation): void;
+  /** BeEvent emitted when the location changes other than by setLocation, for example when the user goes back. */
+  readonly onChanged: BeEvent<PanelLocationListener>;
+}
+
+/**
+ * Whether or not the given locations are the same.
+ * @public
+ */
+export function panelLocationsEqual(a: PanelLocation, b: PanelLocation) {
+  const aKeys = Object.keys(a.params);
+  return a.panel === b.panel && aKeys.length === Object.keys(b.params).length && aKeys.every((key) => a.params[key] === b.params[key]);
+}
+
+/**
+ * A {@link PanelLocationStore} that only keeps the location in memory, for example for tests, or for apps that only
+ * use deep links from native code.
+ * @public
+ */
+export class MemoryPanelLocationStore implements PanelLocationStore {
+  private _history: PanelLocation[];
+  private _index = 0;
+
+  public readonly onChanged = new BeEvent<PanelLocationListener>();
+
+  constructor(initialLocation: PanelLocation = { params: {} }) {
+    this._history = [initialLocation];
+  }
+
+  public get location() {
+    return this._history[this._index];
+  }
+
+  public setLocation(location: PanelLocation, replace: boolean) {
+    if (!replace)
+      ++this._index;
+    this._history.splice(this._index, this._history.length, location);
+  }
+
+  public navigate(location: PanelLocation) {
+    this.setLocation(location, false);
+    this.onChanged.raiseEvent(location);
+  }
+
+  /**
+   * Moves through the history, like the browser's back and forward buttons.
+   * @param delta - The number of entries to move, negative to go back.
+   */
+  public go(delta: number) {
+    const index = Math.max(0, Math.min(this._index + delta, this._history.length - 1));
+    if (index === this._index)
+      return;
+    this._index = index;
+    this.onChanged.raiseEvent(this.location);
+  }
+}
+
+/**
+ * Parses a URL hash such as `#panel=Properties&elementId=0x20`.
+ * @param hash - The hash, with or without the leading "#".
+ * @param panelKey - The hash parameter that holds the panel label, default "panel". The other hash parameters are the
+ * panel parameters.
+ * @returns The location in the hash.
+ * @public
+ */
+export function parsePanelLocationHash(hash: string, panelKey = "panel"): PanelLocation {
+  const searchParams = new URLSearchParams(hash.startsWith("#") ? hash.substring(1) : hash);
+  const params: PanelParams = {};
+  searchParams.forEach((value, key) => {
+    if (key !== panelKey)
+      params[key] = value;
+  });
+  return { panel: searchParams.get(panelKey) ?? undefined, params };
+}
+
+/**
+ * A {@link PanelLocationStore} that keeps the location in the URL hash, for example `#panel=Properties&elementId=0x20`.
+ * Browser history back and forward move between panels, and opening a URL with the hash opens the panel.
+ *
+ * This can be used along with {@link NavigationStack.enableBrowserHistory}: browser history entries that do not change
+ * the hash, such as the ones added by the {@link NavigationStack}, do not emit onChanged.
+ * @public
+ */
+export class HashPanelLocationStore implements PanelLocationStore {
+  /** The last known location, so that onChanged is only emitted when the location actually changes. */
+  private _lastLocation: PanelLocation;
+
+  public readonly onChanged = new BeEvent<PanelLocationListener>();
+
+  /**
+   * @param panelKey - The hash parameter that holds the panel label, default "panel". The other hash parameters are the
+   * panel parameters.
+   */
+  constructor(public readonly panelKey = "panel") {
+    this._lastLocation = this.location;
+    // Note: Browsers also send popstate for hash changes, so there is no need to listen for hashchange.
+    window.addEventListener("popstate", this._onWindowLocationChanged);
+  }
+
+  /** Stops listening to the browser history. */
+  public dispose() {
+    window.removeEventListener("popstate", this._onWindowLocationChanged);
+  }
+
+  public get location() {
+    return this.parse(window.location.hash);
+  }
+
+  public setLocation(location: PanelLocation, replace: boolean) {
+    const url = new URL(window.location.href);
+    url.hash = this.format(location);
+    this._lastLocation = location;
+    if (replace)
+      window.history.replaceState(window.history.state, "", url);
+    else
+      window.history.pushState(null, "", url);
+  }
+
+  public navigate(location: PanelLocation) {
+    this.setLocation(location, false);
+    this.onChanged.raiseEvent(location);
+  }
+
+  /**
+   * Parses the given URL hash.
+   * @param hash - The hash, with or without the leading "#".
+   * @returns The location in the hash.
+   */
+  public parse(hash: string): PanelLocation {
+    return parsePanelLocationHash(hash, this.panelKey);
+  }
+
+  /**
+   * Formats the given location as a URL hash.
+   * @param location - The location.
+   * @returns The hash, without the leading "#", or an empty string when no panel is selected.
+   */
+  public format(location: PanelLocation) {
+    if (location.panel === undefined)
+      return "";
+    return new URLSearchParams({ [this.panelKey]: location.panel, ...location.params }).toString();
+  }
+
+  private _onWindowLocationChanged = () => {
+    const location = this.location;
+    if (panelLocationsEqual(location, this._lastLocation))
+      return;
+    this._lastLocation = location;
+    this.onChanged.raiseEvent(location);
+  };
+}
+
+/**
+ * Registers a {@link Messenger} query handler for native code to open a deep link, for example from a notification.
+ * The message is either a {@link PanelLocation}, or `{ url: string }`, where the URL hash is parsed using
+ * {@link parsePanelLocationHash} with the default panel key.
+ * @param store - The store to navigate.
+ * @param queryName - The name of the query, default "Bentley_ITM_openPanelDeepLink".
+ * @returns A function that removes the handler.
+ * @public
+ */
+export function registerPanelDeepLinkQueryHandler(store: PanelLocationStore, queryName = "Bentley_ITM_openPanelDeepLink") {
+  const queryHandler = Messenger.onQuery(queryName);
+  queryHandler.setHandler(async (message: PanelLocation | { url: string }) => {
+    const location = "url" in message ? parsePanelLocationHash(new URL(message.url).hash) : { panel: message.panel, params: message.params ?? {} };
+    store.navigate(location);
+  });
+  return () => queryHandler.removeHandler();
+}
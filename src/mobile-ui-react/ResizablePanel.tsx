@@ -7,9 +7,30 @@ import classnames from "classnames";
 import { Point2d, XAndY } from "@itwin/core-geometry";
 import { CommonProps } from "@itwin/core-react";
 import { getCssVariableAsNumber, ReloadedEvent } from "@itwin/mobile-sdk-core";
-import { ReactUseState, useIsMountedRef, useWindowEvent } from "./MobileUi";
+import { MobileUi, ReactUseState, useIsMountedRef, useWindowEvent } from "./MobileUi";
+import { useKeepFocusedInputVisible, useKeyboardHeight } from "./KeyboardTracker";
 import "./ResizablePanel.scss";
 
+/**
+ * The height of a {@link PanelDetent}. Numbers are in pixels. Strings can use a "px" or "vh" suffix, or be "fit" to
+ * fit the panel's contents.
+ * @public
+ */
+export type PanelDetentHeight = number | `${number}px` | `${number}vh` | "fit";
+
+/**
+ * A height that a {@link ResizablePanel} snaps to when the user stops dragging it.
+ * @public
+ */
+export interface PanelDetent {
+  /** The name of the detent, for example "peek", "half", or "full". */
+  name: string;
+  /** The height of the detent. The resulting value is clamped to the panel's minimum and maximum heights. */
+  height: PanelDetentHeight;
+  /** The localized label announced by screen readers when the panel snaps to this detent, default is name. */
+  label?: string;
+}
+
 /**
  * Properties for {@link ResizablePanel} component
  * @public
@@ -56,6 +77,80 @@ export interface ResizablePanelProps extends CommonProps {
   heightCanExceedContents?: boolean;
   /** The height state (getter and setter). */
   heightState: ReactUseState<string | number | undefined>;
+  /**
+   * Optional heights that the panel snaps to when the user stops dragging it. When specified, the speed of the drag
+   * determines which detent is chosen, and dragging or flicking below half of the smallest detent calls onFlickDown.
+   */
+  detents?: PanelDetent[];
+  /**
+   * The optional active detent state (getter and setter), which holds the name of the active detent. Calling the
+   * setter with the name of a detent snaps the panel to that detent.
+   */
+  detentState?: ReactUseState<string | undefined>;
+  /**
+   * Called when the panel snaps to a detent.
+   * @param detent - The name of the detent.
+   * @param height - The height of the panel at the detent.
+   */
+  onDetentChanged?: (detent: string, height: number) => void;
+  /** Called when the user presses Escape while the drag handle has keyboard focus. */
+  onCloseRequested?: () => void;
+  /**
+   * When set, the last height (and detent) chosen by the user is saved in localStorage using this key, and restored
+   * (clamped to the current maximum height) the next time a panel with the same key is created. A detent requested
+   * via detentState takes precedence over a restored detent.
+   */
+  persistenceKey?: string;
+}
+
+/** The height and detent of a {@link ResizablePanel} that are saved when persistenceKey is set. */
+interface PersistedPanelState {
+  height?: string | number;
+  detent?: string;
+}
+
+function getPersistedPanelStateKey(persistenceKey: string) {
+  return `ITM_ResizablePanel_${persistenceKey}`;
+}
+
+function loadPersistedPanelState(persistenceKey: string): PersistedPanelState | undefined {
+  try {
+    return JSON.parse(localStorage.getItem(getPersistedPanelStateKey(persistenceKey)) ?? "null") ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function savePersistedPanelState(persistenceKey: string, state: PersistedPanelState) {
+  try {
+    localStorage.setItem(getPersistedPanelStateKey(persistenceKey), JSON.stringify(state));
+  } catch {
+    // The storage is full or unavailable (for example in private mode), so the state is not remembered.
+  }
+}
+
+/** The time (in milliseconds) used to project the end of a drag when choosing a detent. */
+const detentProjectionTime = 200;
+
+/** The number of pixels the arrow keys resize the panel when it doesn't have detents. */
+const keyboardStep = 20;
+
+/** The space in pixels to leave above the panel while it is shrunk to fit above the virtual keyboard. */
+const virtualKeyboardTopMargin = 20;
+
+/**
+ * Converts a detent height to pixels.
+ * @param height - The detent height.
+ * @param fitHeight - The height that fits the panel's contents.
+ * @returns The detent height in pixels.
+ */
+function detentHeightToPixels(height: PanelDetentHeight, fitHeight: number) {
+  if (typeof height === "number")
+    return height;
+  if (height === "fit")
+    return fitHeight;
+  const value = parseFloat(height);
+  return height.endsWith("vh") ? window.innerHeight * value / 100 : value;
 }
 
 /** Returns the last child's scrollHeight less its clientHeight */
@@ -84,11 +179,20 @@ export function ResizablePanel(props: ResizablePanelProps) {
   const { minHeight = 0, maxInitialHeight = 0, minInitialHeight = 0 } = props;
   const [maxHeight, setMaxHeight] = React.useState(props.maxHeight);
   const [initialMaxHeightSet, setInitialMaxHeightSet] = React.useState(false);
-  const { children, className, header, style = {}, reloadedEvent, onResized } = props;
+  const { children, className, header, style = {}, reloadedEvent, onResized, detents, onDetentChanged, persistenceKey } = props;
   const { height: _removedHeight, maxHeight: _removedMaxHeight, ...otherStyles } = style;
   const [lastDragInfo, setLastDragInfo] = React.useState({ dragged: 0, time: Date.now(), speed: 0 });
-  const [flickingUp, setFlickingUp] = React.useState(false);
+  const [animatingHeight, setAnimatingHeight] = React.useState(false);
+  const [internalDetent, setInternalDetent] = React.useState<string>();
+  const [activeDetent, setActiveDetent] = props.detentState ?? [internalDetent, setInternalDetent];
+  const appliedDetent = React.useRef<string>();
+  const [announcement, setAnnouncement] = React.useState("");
+  const [persistedState] = React.useState(() => persistenceKey !== undefined ? loadPersistedPanelState(persistenceKey) : undefined);
+  const persistedStateRestored = React.useRef(false);
   const isMountedRef = useIsMountedRef();
+  const tracksDragSpeed = !!props.onFlickDown || !!detents?.length;
+  const virtualKeyboardHeight = useKeyboardHeight();
+  useKeepFocusedInputVisible(divRef);
 
   /**
    * Sets maxHeight, ensuring it is never larger than any of these 3 values:
@@ -133,6 +237,111 @@ export function ResizablePanel(props: ResizablePanelProps) {
     }
   }, [minInitialHeight, maxInitialHeight, initialMaxHeightSet, updateMaxHeight, props.heightCanExceedContents, setHeightAndCallOnResized]);
 
+  /** Returns the desired height of the divRef (so there's nothing scrollable) */
+  const getOptimalHeight = React.useCallback(() => {
+    if (divRef.current) {
+      const extraHeight = getChildExtraScrollableHeight(divRef.current);
+      return divRef.current.clientHeight + extraHeight;
+    }
+    return 0;
+  }, [divRef]);
+
+  /**
+   * Restores the height to restoreHeight if the result returned from onResized cancels the resize.
+   * @returns true if the resize was canceled, false otherwise.
+   */
+  const restoreHeightIfCanceled = React.useCallback((result: boolean | number | undefined, restoreHeight: number) => {
+    if (result === undefined || result === false)
+      return false;
+    const delay = typeof (result) === "number" ? result : 0;
+    if (delay) {
+      // reset the panel's size after a delay (to allow any closing animations to be done).
+      setTimeout(() => {
+        if (!isMountedRef.current) return;
+        setHeight(restoreHeight);
+      }, delay);
+    } else {
+      setHeight(restoreHeight);
+    }
+    return true;
+  }, [isMountedRef, setHeight]);
+
+  /**
+   * Animates the height change by momentarily setting animatingHeight to true.
+   * @param newHeight - The height to animate to.
+   * @param restoreHeight - If specified, the height to restore if onResized cancels the resize.
+   * @param onComplete - If specified, called after the animation if the resize was not canceled.
+   */
+  const animateHeight = React.useCallback((newHeight: string | number, restoreHeight?: number, onComplete?: () => void) => {
+    const delayTime = (getCssVariableAsNumber("--mui-bottom-panel-animation-duration") * 1000) + 50;
+    setAnimatingHeight(true);
+    setHeight(newHeight);
+    setTimeout(() => {
+      if (!isMountedRef.current) return;
+      setAnimatingHeight(false);
+      if (divRef.current && onResized) {
+        const result = onResized(divRef.current.clientHeight, divRef.current.getBoundingClientRect().top);
+        if (restoreHeight !== undefined && restoreHeightIfCanceled(result, restoreHeight))
+          return;
+      }
+      onComplete?.();
+    }, delayTime);
+  }, [isMountedRef, onResized, setHeight, restoreHeightIfCanceled]);
+
+  /** Returns the height in pixels of the given detent, clamped to the min and max heights. */
+  const getDetentHeight = React.useCallback((detent: PanelDetent) => {
+    const optimalHeight = getOptimalHeight();
+    const detentMaxHeight = updateMaxHeight(optimalHeight);
+    return Math.min(Math.max(detentHeightToPixels(detent.height, optimalHeight), minHeight), detentMaxHeight);
+  }, [getOptimalHeight, minHeight, updateMaxHeight]);
+
+  /** Sets the height to that of the named detent. */
+  const snapToDetent = React.useCallback((name: string, animate: boolean) => {
+    const detent = detents?.find((value) => value.name === name);
+    if (!detent) return;
+    appliedDetent.current = name;
+    setActiveDetent(name);
+    const newHeight = getDetentHeight(detent);
+    if (animate) {
+      animateHeight(newHeight, divRef.current?.clientHeight);
+    } else {
+      setHeightAndCallOnResized(newHeight);
+    }
+    onDetentChanged?.(name, newHeight);
+  }, [detents, setActiveDetent, getDetentHeight, animateHeight, setHeightAndCallOnResized, onDetentChanged]);
+
+  /** Saves the height or detent chosen by the user when persistenceKey is set. */
+  const persistUserChoice = React.useCallback((state: PersistedPanelState) => {
+    if (persistenceKey !== undefined)
+      savePersistedPanelState(persistenceKey, state);
+  }, [persistenceKey]);
+
+  /** Restores the persisted height or detent when initially loaded. */
+  React.useLayoutEffect(() => {
+    if (!divRef.current || !persistedState || persistedStateRestored.current)
+      return;
+    persistedStateRestored.current = true;
+    const { detent, height: persistedHeight } = persistedState;
+    if (detent !== undefined) {
+      if (activeDetent === undefined && detents?.some((value) => value.name === detent))
+        snapToDetent(detent, false);
+      return;
+    }
+    if (typeof persistedHeight === "number") {
+      const currentMaxHeight = updateMaxHeight(props.heightCanExceedContents ? persistedHeight : getOptimalHeight());
+      setHeightAndCallOnResized(Math.min(Math.max(persistedHeight, minHeight), currentMaxHeight));
+    } else if (persistedHeight !== undefined) {
+      // String heights (like "100vh") are constrained by maxHeight.
+      setHeight(persistedHeight);
+    }
+  }, [persistedState, activeDetent, detents, snapToDetent, updateMaxHeight, props.heightCanExceedContents, getOptimalHeight, setHeightAndCallOnResized, minHeight, setHeight]);
+
+  /** Snaps to the active detent whenever it is changed via detentState. The initial snap is not animated. */
+  React.useEffect(() => {
+    if (activeDetent === undefined || activeDetent === appliedDetent.current) return;
+    snapToDetent(activeDetent, appliedDetent.current !== undefined);
+  }, [activeDetent, snapToDetent]);
+
   const onWindowResize = React.useCallback(() => {
     setTimeout(() => {
       if (!isMountedRef.current) return;
@@ -140,23 +349,21 @@ export function ResizablePanel(props: ResizablePanelProps) {
       const newMaxHeight = window.outerHeight - 100 - safeAreaOffsets;
       if (maxHeight !== undefined && maxHeight > newMaxHeight)
         setMaxHeight(newMaxHeight);
+      // Detents that use vh units or fit the contents need to be recalculated.
+      if (appliedDetent.current !== undefined)
+        snapToDetent(appliedDetent.current, false);
     }, 0);
-  }, [maxHeight, isMountedRef]);
+  }, [maxHeight, isMountedRef, snapToDetent]);
 
   useWindowEvent("resize", onWindowResize);
 
-  /** Returns the desired height of the divRef (so there's nothing scrollable) */
-  const getOptimalHeight = React.useCallback(() => {
-    if (divRef.current) {
-      const extraHeight = getChildExtraScrollableHeight(divRef.current);
-      return divRef.current.clientHeight + extraHeight;
-    }
-    return 0;
-  }, [divRef]);
-
   /** Updates the height and maxHeight when reloadedEvent is emitted. */
   React.useEffect(() => {
     const handleReloaded = () => {
+      if (appliedDetent.current !== undefined) {
+        snapToDetent(appliedDetent.current, false);
+        return;
+      }
       let newHeight = getOptimalHeight();
       if (newHeight > 0 && height !== newHeight) {
         let updateHeight = true;
@@ -178,10 +385,10 @@ export function ResizablePanel(props: ResizablePanelProps) {
       }
     };
     return reloadedEvent?.addListener(handleReloaded);
-  }, [reloadedEvent, getOptimalHeight, height, minInitialHeight, maxInitialHeight, updateMaxHeight, setHeightAndCallOnResized]);
+  }, [reloadedEvent, getOptimalHeight, height, minInitialHeight, maxInitialHeight, updateMaxHeight, setHeightAndCallOnResized, snapToDetent]);
 
   const onDragStart = () => {
-    if (props.onFlickDown) {
+    if (tracksDragSpeed) {
       setLastDragInfo({ dragged: 0, time: Date.now(), speed: 0 });
     }
     if (divRef.current) {
@@ -192,7 +399,7 @@ export function ResizablePanel(props: ResizablePanelProps) {
   };
 
   const onDrag = (dragged: number) => {
-    if (props.onFlickDown) {
+    if (tracksDragSpeed) {
       const dist = dragged - lastDragInfo.dragged;
       if (dist !== 0) {
         const now = Date.now();
@@ -212,31 +419,50 @@ export function ResizablePanel(props: ResizablePanelProps) {
     }
   };
 
+  const flickDown = (onFlickDown: () => boolean) => {
+    const delayTime = (getCssVariableAsNumber("--mui-bottom-panel-animation-duration") * 1000) + 50;
+    if (onResized)
+      onResized(startHeight, startTop);
+    if (onFlickDown()) {
+      // restore the height when the dragging started after panel is closed.
+      setTimeout(() => {
+        if (!isMountedRef.current) return;
+        setHeight(startHeight);
+      }, delayTime);
+    }
+  };
+
+  const onDetentDragEnd = (panelDetents: PanelDetent[]) => {
+    if (!divRef.current)
+      return;
+    // Ignore the drag speed if the user stopped moving before lifting their finger.
+    const speed = Date.now() - lastDragInfo.time > 100 ? 0 : lastDragInfo.speed;
+    const projectedHeight = divRef.current.clientHeight - speed * detentProjectionTime;
+    const detentHeights = panelDetents.map((detent) => ({ name: detent.name, height: getDetentHeight(detent) }));
+    const smallestHeight = Math.min(...detentHeights.map((detent) => detent.height));
+    if (props.onFlickDown && projectedHeight < smallestHeight / 2) {
+      flickDown(props.onFlickDown);
+      return;
+    }
+    const closest = detentHeights.reduce((prev, curr) => Math.abs(curr.height - projectedHeight) < Math.abs(prev.height - projectedHeight) ? curr : prev);
+    snapToDetent(closest.name, true);
+    persistUserChoice({ detent: closest.name });
+  };
+
   const onDragEnd = () => {
+    if (detents?.length) {
+      onDetentDragEnd(detents);
+      return;
+    }
+
     if (props.onFlickDown) {
       const lastDragSpeed = lastDragInfo.speed;
       if (Math.abs(lastDragSpeed) > 0.5) { // arbitrary speed value, could become a prop, lower is more sensitive
-        const delayTime = (getCssVariableAsNumber("--mui-bottom-panel-animation-duration") * 1000) + 50;
         if (lastDragSpeed < 0) {
-          // animate the height change by momentarily setting flickingUp to true
-          setFlickingUp(true);
-          setHeight(props.flickUpHeight ?? "100vh"); // using 100vh so it will be constrained by its maxHeight
-          setTimeout(() => {
-            if (!isMountedRef.current) return;
-            setFlickingUp(false);
-            if (divRef.current && onResized)
-              onResized(divRef.current.clientHeight, divRef.current.getBoundingClientRect().top);
-          }, delayTime);
+          const flickUpHeight = props.flickUpHeight ?? "100vh"; // using 100vh so it will be constrained by its maxHeight
+          animateHeight(flickUpHeight, undefined, () => persistUserChoice({ height: flickUpHeight }));
         } else {
-          if (onResized)
-            onResized(startHeight, startTop);
-          if (props.onFlickDown()) {
-            // restore the height when the dragging started after panel is closed.
-            setTimeout(() => {
-              if (!isMountedRef.current) return;
-              setHeight(startHeight);
-            }, delayTime);
-          }
+          flickDown(props.onFlickDown);
         }
         return;
       }
@@ -249,52 +475,143 @@ export function ResizablePanel(props: ResizablePanelProps) {
         return;
       if (onResized) {
         const top = divRef.current.getBoundingClientRect().top;
-        const result = onResized(newHeight, top);
-        if (result !== undefined && result !== false) {
-          const delay = typeof (result) === "number" ? result : 0;
-          if (delay) {
-            // reset the panel's size after a delay (to allow any closing animations to be done).
-            setTimeout(() => {
-              if (!isMountedRef.current) return;
-              setHeight(startHeight);
-            }, delay);
-          } else {
-            setHeight(startHeight);
-          }
+        if (restoreHeightIfCanceled(onResized(newHeight, top), startHeight))
           return;
-        }
       }
       updateMaxHeight(newHeight);
+      persistUserChoice({ height: newHeight });
+    }
+  };
+
+  /** Returns the detent to move to in response to the given key, or undefined if the key isn't handled. */
+  const getKeyboardDetent = (panelDetents: PanelDetent[], key: string, currentHeight: number) => {
+    const sorted = panelDetents.map((detent) => ({ detent, height: getDetentHeight(detent) })).sort((a, b) => a.height - b.height);
+    switch (key) {
+      case "ArrowUp":
+      case "PageUp":
+        return sorted.find((value) => value.height > currentHeight + 1) ?? sorted[sorted.length - 1];
+      case "ArrowDown":
+      case "PageDown":
+        return [...sorted].reverse().find((value) => value.height < currentHeight - 1) ?? sorted[0];
+      case "Home":
+        return sorted[0];
+      case "End":
+        return sorted[sorted.length - 1];
     }
+    return undefined;
   };
 
+  /** Returns the height to resize to in response to the given key, or undefined if the key isn't handled. */
+  const getKeyboardHeight = (key: string, currentHeight: number, currentMaxHeight: number) => {
+    const pageStep = currentMaxHeight / 4;
+    switch (key) {
+      case "ArrowUp":
+        return currentHeight + keyboardStep;
+      case "ArrowDown":
+        return currentHeight - keyboardStep;
+      case "PageUp":
+        return currentHeight + pageStep;
+      case "PageDown":
+        return currentHeight - pageStep;
+      case "Home":
+        return minHeight;
+      case "End":
+        return currentMaxHeight;
+    }
+    return undefined;
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (!divRef.current)
+      return;
+    if (e.key === "Escape") {
+      if (props.onCloseRequested) {
+        e.preventDefault();
+        props.onCloseRequested();
+      }
+      return;
+    }
+    const currentHeight = divRef.current.clientHeight;
+    if (detents?.length) {
+      const target = getKeyboardDetent(detents, e.key, currentHeight);
+      if (!target)
+        return;
+      e.preventDefault();
+      snapToDetent(target.detent.name, true);
+      persistUserChoice({ detent: target.detent.name });
+      setAnnouncement(MobileUi.translate("resizable-panel.detent", { detent: target.detent.label ?? target.detent.name }));
+      return;
+    }
+    const currentMaxHeight = updateMaxHeight(getOptimalHeight());
+    const keyboardHeight = getKeyboardHeight(e.key, currentHeight, currentMaxHeight);
+    if (keyboardHeight === undefined)
+      return;
+    e.preventDefault();
+    const newHeight = Math.round(Math.min(Math.max(keyboardHeight, minHeight), currentMaxHeight));
+    if (newHeight === currentHeight)
+      return;
+    animateHeight(newHeight, currentHeight, () => persistUserChoice({ height: newHeight }));
+    setAnnouncement(MobileUi.translate("resizable-panel.height", { percent: Math.round(newHeight / currentMaxHeight * 100) }));
+  };
+
+  const heightPercent = typeof height === "number" && maxHeight ? Math.round(Math.min(height / maxHeight, 1) * 100) : undefined;
+  // While the virtual keyboard is shown, the panel shrinks (without changing its height) to fit above it.
+  const visibleMaxHeight = virtualKeyboardHeight > 0
+    ? Math.min(maxHeight ?? Number.MAX_VALUE, window.innerHeight - virtualKeyboardHeight - getCssVariableAsNumber("--itm-safe-area-top") - virtualKeyboardTopMargin)
+    : maxHeight;
+  // Otherwise min-height would win over max-height when the keyboard leaves less room than minHeight.
+  const visibleMinHeight = virtualKeyboardHeight > 0 && visibleMaxHeight !== undefined ? Math.min(minHeight, visibleMaxHeight) : minHeight;
+  const activeDetentDef = detents?.find((detent) => detent.name === activeDetent);
+  let valueText: string | undefined;
+  if (activeDetentDef)
+    valueText = MobileUi.translate("resizable-panel.detent", { detent: activeDetentDef.label ?? activeDetentDef.name });
+  else if (heightPercent !== undefined)
+    valueText = MobileUi.translate("resizable-panel.height", { percent: heightPercent });
+
   return (
     <>
-      <div className={classnames("mui-resizable-panel", className, flickingUp && "mui-panel-animate-height")} ref={divRef} style={{ ...otherStyles, height, minHeight, maxHeight }}>
-        <VerticalDragHandle onDragStart={onDragStart} onDrag={onDrag} onDragEnd={onDragEnd} />
+      <div className={classnames("mui-resizable-panel", className, animatingHeight && "mui-panel-animate-height")} ref={divRef} style={{ ...otherStyles, height, minHeight: visibleMinHeight, maxHeight: visibleMaxHeight }}>
+        <VerticalDragHandle
+          onDragStart={onDragStart} onDrag={onDrag} onDragEnd={onDragEnd} onKeyDown={onKeyDown}
+          aria-valuenow={heightPercent} aria-valuetext={valueText}
+        />
         {header && React.cloneElement(header, { onDragStart, onDrag: (dragged: XAndY) => onDrag(dragged.y), onDragEnd })}
         {children}
       </div>
       {/* with a short distance flick up on the Views panel a click would sometimes occur, this div will receive the click and do nothing */}
-      {flickingUp && <div className="mui-panel-pointer-event-blocker" />}
+      {animatingHeight && <div className="mui-panel-pointer-event-blocker" />}
+      <div className="mui-visually-hidden" aria-live="polite">{announcement}</div>
     </>
   );
 }
 
-interface VerticalDragHandleProps {
+interface VerticalDragHandleProps extends Pick<React.AriaAttributes, "aria-valuenow" | "aria-valuetext"> {
   onDragStart?: (initial: number) => void;
   onDrag?: (dragged: number) => void;
   onDragEnd?: () => void;
+  onKeyDown?: (e: React.KeyboardEvent) => void;
 }
 
+/** The drag handle is exposed to assistive technologies as a focusable separator whose value is the panel height. */
 function VerticalDragHandle(props: VerticalDragHandleProps) {
+  const { onDragStart: _onDragStart, onDrag: _onDrag, ...otherProps } = props;
   const onDragStart = (initialPosition: XAndY) => {
     props.onDragStart?.(initialPosition.y);
   };
   const onDrag = (dragged: XAndY) => {
     props.onDrag?.(dragged.y);
   };
-  return <DraggableComponent className="mui-drag-container" onDragStart={onDragStart} onDrag={onDrag} onDragEnd={props.onDragEnd}>
+  return <DraggableComponent
+    {...otherProps}
+    className="mui-drag-container"
+    role="separator"
+    tabIndex={0}
+    aria-label={MobileUi.translate("resizable-panel.drag-handle")}
+    aria-orientation="horizontal"
+    aria-valuemin={0}
+    aria-valuemax={100}
+    onDragStart={onDragStart} onDrag={onDrag}
+  >
     <div className="mui-drag-handle" />
   </DraggableComponent>;
 }
@@ -322,13 +639,20 @@ export interface DraggableComponentCallbackProps {
  * Properties for {@link DraggableComponent} component.
  * @public
  */
-export interface DraggableComponentProps extends DraggableComponentCallbackProps {
+export interface DraggableComponentProps extends DraggableComponentCallbackProps, React.AriaAttributes {
   className?: string;
   children?: React.ReactNode;
+  /** The ARIA role of the draggable element, default is "presentation". */
+  role?: React.AriaRole;
+  /** The tab index of the draggable element. Set this to make the element keyboard focusable. */
+  tabIndex?: number;
+  /** Called when a key is pressed while the draggable element has keyboard focus. */
+  onKeyDown?: (e: React.KeyboardEvent) => void;
 }
 
-/** A React component that is draggable. */
+/** A React component that is draggable using touch, mouse, or pen input. */
 export function DraggableComponent(props: DraggableComponentProps) {
+  const { className, children, onDragStart: _onDragStart, onDrag: _onDrag, onDragEnd: _onDragEnd, ...elementProps } = props;
   const [lastPosition, setLastPosition] = React.useState<XAndY | undefined>(undefined);
   const onDragStart = (initialPosition: XAndY) => {
     setLastPosition(initialPosition);
@@ -341,13 +665,14 @@ export function DraggableComponent(props: DraggableComponentProps) {
     setLastPosition(undefined);
     props.onDragEnd?.();
   };
-  return <TouchDragHandle
-    className={classnames("mui-draggable-component", props.className)}
+  return <PointerDragHandle
+    {...elementProps}
+    className={classnames("mui-draggable-component", className)}
     onDragStart={onDragStart} onDrag={onDrag}
     lastPosition={lastPosition} onDragEnd={onDragEnd}
   >
-    {props.children}
-  </TouchDragHandle>;
+    {children}
+  </PointerDragHandle>;
 }
 
 // @todo AppUI deprecation
@@ -362,112 +687,19 @@ export function VerticalScroll(props: VerticalScrollProps) {
   return <div {...otherProps} className={classnames("mui-vertical-scroll", className)}>{children}</div>;
 }
 
-// @todo AppUI deprecation
-// eslint-disable-next-line @typescript-eslint/no-deprecated
-interface TouchCaptorProps extends CommonProps {
-  isTouchStarted: boolean;
-  onTouchStart?: (e: TouchEvent) => void;
-  onTouchMove?: (e: TouchEvent) => void;
-  onTouchEnd?: (e: TouchEvent) => void;
-  children?: React.ReactNode;
-}
-
-// This is a copy of PointerCaptor that has been changed to work with touch events instead.
-class TouchCaptor extends React.PureComponent<TouchCaptorProps> {
-  public override componentDidMount() {
-    document.addEventListener("touchend", this._handleDocumentTouchEnd);
-    document.addEventListener("touchmove", this._handleDocumentTouchMove);
-  }
-
-  public override componentWillUnmount() {
-    document.removeEventListener("touchend", this._handleDocumentTouchEnd);
-    document.removeEventListener("touchmove", this._handleDocumentTouchMove);
-  }
-
-  public override render() {
-    const className = classnames(
-      "nz-base-pointerCaptor",
-      this.props.isTouchStarted && "nz-captured",
-      this.props.className);
-    return (
-      <div
-        className={className}
-        onTouchStart={this._handleTouchStart}
-        style={this.props.style}
-        role="presentation"
-      >
-        <div className="nz-overlay" />
-        {this.props.children}
-      </div>
-    );
-  }
-
-  private _handleTouchStart = (e: React.TouchEvent<HTMLDivElement>) => {
-    this.props.onTouchStart && this.props.onTouchStart(e.nativeEvent);
-  };
-
-  private _handleDocumentTouchEnd = (e: TouchEvent) => {
-    if (!this.props.isTouchStarted)
-      return;
-    this.props.onTouchEnd && this.props.onTouchEnd(e);
-  };
-
-  private _handleDocumentTouchMove = (e: TouchEvent) => {
-    if (!this.props.isTouchStarted)
-      return;
-    this.props.onTouchMove && this.props.onTouchMove(e);
-  };
-}
-
-// @todo Use the functional version of TouchCaptor below after sufficient testing.
-// // 2024-06-24: Converted to a function.
-// function TouchCaptor(props: TouchCaptorProps) {
-//   const { className, children, isTouchStarted, onTouchStart, onTouchMove, onTouchEnd } = props;
-//   const handleTouchStart = React.useCallback((e: React.TouchEvent<HTMLDivElement>) => {
-//     onTouchStart?.(e.nativeEvent);
-//   }, [onTouchStart]);
-//   const handleDocumentTouchEnd = React.useCallback((e: TouchEvent) => {
-//     if (!isTouchStarted)
-//       return;
-//     onTouchEnd?.(e);
-//   }, [onTouchEnd, isTouchStarted]);
-//   const handleDocumentTouchMove = React.useCallback((e: TouchEvent) => {
-//     if (!isTouchStarted)
-//       return;
-//     onTouchMove?.(e);
-//   }, [onTouchMove, isTouchStarted]);
-//   React.useEffect(() => {
-//     document.addEventListener("touchend", handleDocumentTouchEnd);
-//     document.addEventListener("touchmove", handleDocumentTouchMove);
-//     return () => {
-//       document.removeEventListener("touchend", handleDocumentTouchEnd);
-//       document.removeEventListener("touchmove", handleDocumentTouchMove);
-//     };
-//   }, [handleDocumentTouchEnd, handleDocumentTouchMove]);
-//   const fullClassName = classnames(
-//     "nz-base-pointerCaptor",
-//     isTouchStarted && "nz-captured",
-//     className);
-//   return (
-//     <div
-//       className={fullClassName}
-//       onTouchStart={handleTouchStart}
-//       style={props.style}
-//       role="presentation"
-//     >
-//       <div className="nz-overlay" />
-//       {children}
-//     </div>
-//   );
-// }
-
-interface TouchDragHandleState {
+interface PointerDragHandleState {
   isPointerDown: boolean;
 }
 
 // @todo AppUI deprecation
 // eslint-disable-next-line @typescript-eslint/no-deprecated
-interface TouchDragHandleProps extends CommonProps {
+interface PointerDragHandleProps extends CommonProps, React.AriaAttributes {
+  /** The ARIA role, default is "presentation". */
+  role?: React.AriaRole;
+  /** The tab index. */
+  tabIndex?: number;
+  /** Function called when a key is pressed while focused. */
+  onKeyDown?: (e: React.KeyboardEvent) => void;
   /** Last pointer position of draggable tab. */
   lastPosition?: XAndY;
   /** Function called when component is dragged. */
@@ -482,53 +714,66 @@ interface TouchDragHandleProps extends CommonProps {
   children?: React.ReactNode;
 }
 
-// A copy of the DragHandle class that uses TouchCaptor instead of PointerCaptor and only allows single touches during drags.
-class TouchDragHandle extends React.PureComponent<TouchDragHandleProps, TouchDragHandleState> {
+/** Gets only the aria-* attributes from the given props, so that other props are not passed on to a DOM element. */
+function getAriaAttributes(props: React.AriaAttributes) {
+  const attributes: { [key: string]: unknown } = {};
+  Object.entries(props).forEach(([key, value]) => {
+    if (key.startsWith("aria-"))
+      attributes[key] = value;
+  });
+  return attributes as React.AriaAttributes;
+}
+
+// A version of the appui DragHandle class that uses pointer capture instead of PointerCaptor's document listeners, so
+// that touch, mouse, and pen input all work. It only allows a single pointer during drags.
+class PointerDragHandle extends React.PureComponent<PointerDragHandleProps, PointerDragHandleState> {
   private _initial: XAndY | undefined = undefined;
-  // private _isDragged = false;
+  private _pointerId: number | undefined = undefined;
 
-  public override readonly state: TouchDragHandleState = {
+  public override readonly state: PointerDragHandleState = {
     isPointerDown: false,
   };
 
   public override render() {
-    const { style, children, className, lastPosition } = this.props;
+    const { style, children, className, lastPosition, role = "presentation", tabIndex, onKeyDown } = this.props;
+    const isCaptured = lastPosition === undefined ? this.state.isPointerDown : true;
     return (
-      <TouchCaptor
-        className={className}
-        isTouchStarted={lastPosition === undefined ? this.state.isPointerDown : true}
-        // onClick={this._handleClick}
-        onTouchStart={this._handlePointerDown}
-        onTouchEnd={this._handlePointerUp}
-        onTouchMove={this._handlePointerMove}
+      <div
+        {...getAriaAttributes(this.props)}
+        tabIndex={tabIndex}
+        onKeyDown={onKeyDown}
+        className={classnames("nz-base-pointerCaptor", isCaptured && "nz-captured", className)}
+        onPointerDown={this._handlePointerDown}
+        onPointerMove={this._handlePointerMove}
+        onPointerUp={this._handlePointerUp}
+        onPointerCancel={this._handlePointerUp}
+        onLostPointerCapture={this._handlePointerUp}
         style={style}
+        role={role}
       >
+        <div className="nz-overlay" />
         {children}
-      </TouchCaptor>
+      </div>
     );
   }
 
-  private _handlePointerDown = (e: TouchEvent) => {
-    // if (e.target instanceof Element) {
-    //   e.target.releasePointerCapture(e.pointerId);
-    // }
-
-    if (e.touches.length !== 1)
+  private _handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    // Ignore additional pointers while dragging, and anything other than the primary mouse button.
+    if (this._pointerId !== undefined || (e.pointerType === "mouse" && e.button !== 0))
       return;
+    this._pointerId = e.pointerId;
+    // Note: setPointerCapture is missing in some environments (jsdom, for example).
+    e.currentTarget.setPointerCapture?.(e.pointerId);
     this.setState({ isPointerDown: true });
 
     e.preventDefault();
-    // this._isDragged = false;
-    const touch = e.touches[0];
-
-    this._initial = {x: touch.clientX, y: touch.clientY};
+    this._initial = { x: e.clientX, y: e.clientY };
   };
 
-  private _handlePointerMove = (e: TouchEvent) => {
-    if (e.touches.length !== 1)
+  private _handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== this._pointerId)
       return;
-    const touch = e.touches[0];
-    const current = new Point2d(touch.clientX, touch.clientY);
+    const current = new Point2d(e.clientX, e.clientY);
     if (this.props.lastPosition) {
       const dragged = current.minus(this.props.lastPosition);
       this.props.onDrag?.(dragged);
@@ -536,12 +781,17 @@ class TouchDragHandle extends React.PureComponent<TouchDragHandleProps, TouchDra
     }
 
     if (this._initial && current.distance(this._initial) >= 6) {
-      // this._isDragged = true;
       this.props.onDragStart?.(this._initial);
     }
   };
 
-  private _handlePointerUp = () => {
+  private _handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerId !== this._pointerId)
+      return;
+    // Clear _pointerId first so that the lostpointercapture event caused by the release below is ignored.
+    this._pointerId = undefined;
+    if (e.currentTarget.hasPointerCapture?.(e.pointerId))
+      e.currentTarget.releasePointerCapture(e.pointerId);
     this.setState({ isPointerDown: false });
     this._initial = undefined;
     if (this.props.lastPosition) {
@@ -549,65 +799,4 @@ class TouchDragHandle extends React.PureComponent<TouchDragHandleProps, TouchDra
       return;
     }
   };
-
-  // private _handleClick = () => {
-  //   if (this._isDragged)
-  //     return;
-  //   this.props.onClick?.();
-  // }
 }
-
-// @todo Use the functional version of TouchDragHandle below after sufficient testing.
-// NOTE: appui now has usePointerCaptor, which also supports touches. This whole component might
-// be redesigned to use that, but I don't understand usePointerCaptor enough to even know if it is
-// possible. If usePointerCaptor can be used, then the TouchCaptor class above is not needed.
-// // 2024-06-24: Converted to a function.
-// function TouchDragHandle(props: TouchDragHandleProps) {
-//   const { className, style, lastPosition, onDrag, onDragStart, onDragEnd, children } = props;
-//   const [ isPointerDown, setIsPointerDown ] = React.useState(false);
-//   const [ initial, setInitial ] = React.useState<XAndY>();
-//   const handlePointerDown = React.useCallback((e: TouchEvent) => {
-//     if (e.touches.length !== 1)
-//       return;
-//     setIsPointerDown(true);
-
-//     e.preventDefault();
-//     const touch = e.touches[0];
-
-//     setInitial({x: touch.clientX, y: touch.clientY});
-//   }, []);
-//   const handlePointerMove = React.useCallback((e: TouchEvent) => {
-//     if (e.touches.length !== 1)
-//       return;
-//     const touch = e.touches[0];
-//     const current = new Point2d(touch.clientX, touch.clientY);
-//     if (lastPosition) {
-//       const dragged = current.minus(lastPosition);
-//       onDrag?.(dragged);
-//       return;
-//     }
-
-//     if (initial && current.distance(initial) >= 6) {
-//       onDragStart?.(initial);
-//     }
-//   }, [lastPosition, initial, onDragStart, onDrag]);
-//   const handlePointerUp = React.useCallback(() => {
-//     setIsPointerDown(false);
-//     setInitial(undefined);
-//     if (lastPosition) {
-//       onDragEnd?.();
-//     }
-//   }, [lastPosition, onDragEnd]);
-//   return (
-//     <TouchCaptor
-//       className={className}
-//       isTouchStarted={lastPosition === undefined ? isPointerDown : true}
-//       onTouchStart={handlePointerDown}
-//       onTouchEnd={handlePointerUp}
-//       onTouchMove={handlePointerMove}
-//       style={style}
-//     >
-//       {children}
-//     </TouchCaptor>
-//   );
-// }
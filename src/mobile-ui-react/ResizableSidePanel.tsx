@@ -0,0 +1,208 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import * as React from "react";
+import classnames from "classnames";
+import { XAndY } from "@itwin/core-geometry";
+import { CommonProps } from "@itwin/core-react";
+import { getCssVariableAsNumber } from "@itwin/mobile-sdk-core";
+import { MobileUi, ReactUseState, useIsMountedRef } from "./MobileUi";
+import { DraggableComponent, DraggableComponentCallbackProps } from "./ResizablePanel";
+import { useKeepFocusedInputVisible } from "./KeyboardTracker";
+import "./ResizableSidePanel.scss";
+
+/**
+ * Properties for {@link ResizableSidePanel} component
+ * @public
+ */
+// @todo AppUI deprecation
+// eslint-disable-next-line @typescript-eslint/no-deprecated
+export interface ResizableSidePanelProps extends CommonProps {
+  /** The children */
+  children?: React.ReactNode;
+  /** The side of the screen the panel is attached to. The drag handle is on the opposite edge. */
+  side: "left" | "right";
+  /**
+   * Called when the panel is resized.
+   * @param currentWidth - The current width of the component.
+   * @returns true or a non-zero number to cancel the resize.
+   * When a number is returned, it represents the delay (in milliseconds) before the panel's width
+   * is restored to the original size, which can be useful to allow animations to settle.
+   */
+  onResized?: (currentWidth: number) => boolean | number;
+  /**
+   * Called when the panel is resizing.
+   * @param currentWidth - The current width of the component.
+   */
+  onResizing?: (currentWidth: number) => void;
+  /**
+   * Called when the panel is flicked towards its side of the screen. If not supplied, flick gestures are not active.
+   * @returns true if the flick closes the panel, false otherwise.
+   */
+  onFlickClosed?: () => boolean;
+  /** Called when the user presses Escape while the drag handle has keyboard focus. */
+  onCloseRequested?: () => void;
+  /** An optional header element. Horizontal drags of the header resize the panel. */
+  header?: React.ReactElement<DraggableComponentCallbackProps>;
+  /** The minimum width of the panel, default 0. */
+  minWidth?: number;
+  /** The maximum width of the panel, default is 100 less than the window width. */
+  maxWidth?: number;
+  /** The width state (getter and setter). When the width is undefined, --mui-side-sheet-width is used. */
+  widthState: ReactUseState<number | undefined>;
+}
+
+/** The number of pixels the arrow keys resize the panel. */
+const keyboardStep = 20;
+
+/**
+ * A React component that supports horizontal resizing via a drag handle on the edge opposite its side of the screen.
+ * @public
+ */
+export function ResizableSidePanel(props: ResizableSidePanelProps) {
+  const { children, className, style, header, side, minWidth = 0, onResized, onResizing, onFlickClosed, onCloseRequested } = props;
+  const [width, setWidth] = props.widthState;
+  const divRef = React.useRef<HTMLDivElement>(null);
+  const [startWidth, setStartWidth] = React.useState(0);
+  const [lastDragInfo, setLastDragInfo] = React.useState({ dragged: 0, time: Date.now(), speed: 0 });
+  const isMountedRef = useIsMountedRef();
+  useKeepFocusedInputVisible(divRef);
+  // Dragging towards the side of the screen the panel is attached to shrinks it.
+  const direction = side === "left" ? 1 : -1;
+
+  const getMaxWidth = () => Math.min(props.maxWidth ?? Number.MAX_VALUE, window.innerWidth - 100);
+  const clampWidth = (newWidth: number) => Math.min(Math.max(newWidth, minWidth), getMaxWidth());
+
+  const restoreWidthIfCanceled = (result: boolean | number | undefined, restoreWidth: number) => {
+    if (result === undefined || result === false)
+      return false;
+    const delay = typeof (result) === "number" ? result : 0;
+    if (delay) {
+      // reset the panel's size after a delay (to allow any closing animations to be done).
+      setTimeout(() => {
+        if (!isMountedRef.current) return;
+        setWidth(restoreWidth);
+      }, delay);
+    } else {
+      setWidth(restoreWidth);
+    }
+    return true;
+  };
+
+  const onDragStart = () => {
+    if (onFlickClosed)
+      setLastDragInfo({ dragged: 0, time: Date.now(), speed: 0 });
+    if (divRef.current)
+      setStartWidth(divRef.current.clientWidth);
+  };
+
+  const onDrag = (dragged: XAndY) => {
+    const draggedOut = dragged.x * direction;
+    if (onFlickClosed) {
+      const dist = draggedOut - lastDragInfo.dragged;
+      if (dist !== 0) {
+        const now = Date.now();
+        setLastDragInfo({ dragged: draggedOut, time: now, speed: dist / (now - lastDragInfo.time) });
+      }
+    }
+    if (startWidth) {
+      setWidth(clampWidth(startWidth + draggedOut));
+      if (divRef.current)
+        onResizing?.(divRef.current.clientWidth);
+    }
+  };
+
+  const onDragEnd = () => {
+    // A negative speed is towards the side of the screen the panel is attached to.
+    if (onFlickClosed && lastDragInfo.speed < -0.5 && Date.now() - lastDragInfo.time <= 100) {
+      onResized?.(startWidth);
+      if (onFlickClosed()) {
+        // restore the width when the dragging started after panel is closed.
+        const delayTime = (getCssVariableAsNumber("--mui-bottom-panel-animation-duration") * 1000) + 50;
+        setTimeout(() => {
+          if (!isMountedRef.current) return;
+          setWidth(startWidth);
+        }, delayTime);
+      }
+      return;
+    }
+    if (divRef.current && onResized) {
+      const newWidth = divRef.current.clientWidth;
+      if (newWidth !== startWidth)
+        restoreWidthIfCanceled(onResized(newWidth), startWidth);
+    }
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (!divRef.current)
+      return;
+    if (e.key === "Escape") {
+      if (onCloseRequested) {
+        e.preventDefault();
+        onCloseRequested();
+      }
+      return;
+    }
+    const currentWidth = divRef.current.clientWidth;
+    let newWidth: number;
+    switch (e.key) {
+      case "ArrowLeft":
+        newWidth = currentWidth - keyboardStep * direction;
+        break;
+      case "ArrowRight":
+        newWidth = currentWidth + keyboardStep * direction;
+        break;
+      case "Home":
+        newWidth = minWidth;
+        break;
+      case "End":
+        newWidth = getMaxWidth();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    newWidth = clampWidth(newWidth);
+    if (newWidth === currentWidth)
+      return;
+    setWidth(newWidth);
+    if (onResized)
+      restoreWidthIfCanceled(onResized(newWidth), currentWidth);
+  };
+
+  const maxWidth = getMaxWidth();
+  const widthPercent = width !== undefined ? Math.round(Math.min(width / maxWidth, 1) * 100) : undefined;
+  const dragHandle = <DraggableComponent
+    className="mui-side-drag-container"
+    role="separator"
+    tabIndex={0}
+    aria-label={MobileUi.translate("resizable-panel.drag-handle")}
+    aria-orientation="vertical"
+    aria-valuemin={0}
+    aria-valuemax={100}
+    aria-valuenow={widthPercent}
+    aria-valuetext={widthPercent !== undefined ? MobileUi.translate("resizable-panel.width", { percent: widthPercent }) : undefined}
+    onKeyDown={onKeyDown}
+    onDragStart={onDragStart}
+    onDrag={onDrag}
+    onDragEnd={onDragEnd}
+  >
+    <div className="mui-side-drag-handle" />
+  </DraggableComponent>;
+
+  return (
+    <div
+      className={classnames("mui-resizable-side-panel", `mui-resizable-side-panel-${side}`, className)}
+      ref={divRef}
+      style={{ ...style, width, minWidth, maxWidth }}
+    >
+      {side === "right" && dragHandle}
+      <div className="mui-resizable-side-panel-content">
+        {header && React.cloneElement(header, { onDragStart, onDrag, onDragEnd })}
+        {children}
+      </div>
+      {side === "left" && dragHandle}
+    </div>
+  );
+}
@@ -2,9 +2,11 @@
 * Copyright (c) Bentley Systems, Incorporated. All rights reserved.
 * See LICENSE.md in the project root for license terms and full copyright notice.
 *--------------------------------------------------------------------------------------------*/
-import { Angle, AxisIndex, Geometry, Matrix3d, Vector3d } from "@itwin/core-geometry";
-import { IModelApp } from "@itwin/core-frontend";
+import { Angle, AxisIndex, Geometry, Matrix3d, Transform, Vector3d } from "@itwin/core-geometry";
+import { EasingFunction } from "@itwin/core-common";
+import { IModelApp, ScreenViewport } from "@itwin/core-frontend";
 import { CubeNavigationHitBoxX, CubeNavigationHitBoxY, CubeNavigationHitBoxZ, Face, ViewportComponentEvents } from "@itwin/imodel-components-react";
+import { InterpolateFrustumAnimator } from "./PanViewport";
 
 // NOTE: most of the code in this file was adapted from the following file in the imodeljs repository:
 // ui/components/src/ui-components/navigationaids/CubeNavigationAid.tsx
@@ -59,6 +61,115 @@ function isMatrixFace(matrix: Matrix3d): boolean {
   return sum === 3;
 }
 
+/**
+ * Computes the view rotation for looking at the given cube cell.
+ * @param currentRotation - The current rotation of the view, used to pick the best rotation for top and bottom views.
+ * @param face - The face of the cell.
+ * @param x - The horizontal position of the cell on the face.
+ * @param y - The vertical position of the cell on the face.
+ * @returns The rotation matrix, or undefined if it could not be computed.
+ */
+function getCubeCellRotation(currentRotation: Matrix3d, face: Face, x: number, y: number) {
+  const pos = faceCellToPos(face, x, y);
+  let rotMatrix = Matrix3d.createRigidViewAxesZTowardsEye(pos.x, pos.y, pos.z).inverse();
+  // if isMatrixFace and user is clicking on top/bottom, the current matrix face must be top or bottom
+  if (rotMatrix && x === 0 && y === 0 && !isMatrixFace(currentRotation) && (face === Face.Top || face === Face.Bottom)) {
+    const angleAxis = currentRotation.getAxisAndAngleOfRotation();
+    // istanbul ignore else
+    if (angleAxis.ok) {
+      const xAx = currentRotation.columnX();
+      const a = Math.atan2(xAx.y, xAx.x);
+      const r = Math.round(a * 2 / Math.PI) * Math.PI / 2; // round to quarter turn intervals
+      const rot = Matrix3d.createRotationAroundAxisIndex(AxisIndex.Z, Angle.createRadians(r));
+      rotMatrix = rot.multiplyMatrixMatrix(rotMatrix);
+    }
+  }
+  return rotMatrix;
+}
+
+/**
+ * The position of a cell on a face of the view cube along one axis: -1 for the left or top edge, 0 for the center, and
+ * 1 for the right or bottom edge.
+ * @public
+ */
+export type CubeCellOffset = -1 | 0 | 1;
+
+/**
+ * Options for {@link rotateViewportToCubeCell}.
+ * @public
+ */
+export interface RotateViewportOptions {
+  /** The animation time in ms, default ScreenViewport.animation.time.normal. Use 0 to rotate without animating. */
+  animationTime?: number;
+  /** The easing function for the animation, default Easing.Cubic.Out. */
+  easingFunction?: EasingFunction;
+}
+
+/**
+ * Rotate the given 3d viewport around its center so that its rotation matches the given rotation.
+ * @param vp - The viewport to rotate.
+ * @param rotMatrix - The new rotation of the view.
+ * @param options - The animation options.
+ */
+function rotateViewportTo(vp: ScreenViewport, rotMatrix: Matrix3d, options?: RotateViewportOptions) {
+  const view = vp.view;
+  if (!view.is3d() || vp.rotation.isAlmostEqual(rotMatrix)) return;
+
+  // Abort any ongoing animations so that the starting frustum is not mid-stream.
+  vp.setAnimator(undefined);
+  const center = vp.isCameraOn ? view.getTargetPoint() : view.getCenter();
+  const worldTransform = Transform.createFixedPointAndMatrix(center, rotMatrix.transpose().multiplyMatrixMatrix(vp.rotation));
+  const startFrustum = vp.getFrustum().clone();
+  const frustum = startFrustum.clone();
+  frustum.multiply(worldTransform);
+  vp.setupViewFromFrustum(frustum);
+  if (options?.animationTime !== 0)
+    vp.setAnimator(new InterpolateFrustumAnimator(options ?? {}, vp, startFrustum, vp.getFrustum()));
+}
+
+/**
+ * Rotate the given viewport to look at one of the 26 cells of the view cube (6 faces, 12 edges, and 8 corners), if it
+ * is not already looking that way. Edges and corners are specified relative to a face; for example, the top front
+ * right corner is face Front with x 1 and y -1. The view is rotated around its center.
+ * @param vp - The {@link ScreenViewport} to rotate. Only 3d views can be rotated.
+ * @param face - The face containing the cell.
+ * @param x - The horizontal position of the cell on the face, default 0.
+ * @param y - The vertical position of the cell on the face, default 0.
+ * @param options - The animation options.
+ * @public
+ */
+export function rotateViewportToCubeCell(vp: ScreenViewport, face: Face, x: CubeCellOffset = 0, y: CubeCellOffset = 0, options?: RotateViewportOptions) {
+  if (!vp.view.is3d()) return;
+  const rotMatrix = getCubeCellRotation(vp.rotation, face, x, y);
+  if (rotMatrix)
+    rotateViewportTo(vp, rotMatrix, options);
+}
+
+/**
+ * The direction of a quarter turn for {@link rotateViewportByQuarterTurn}.
+ * @public
+ */
+export type QuarterTurnDirection = "left" | "right" | "up" | "down";
+
+/**
+ * Rotate the model displayed in the given viewport a quarter turn in the given direction, as if it had been swiped in
+ * that direction. Left and right turns are around the world Z axis, which keeps the model upright. Up and down turns
+ * are around the horizontal axis of the view.
+ * @param vp - The {@link ScreenViewport} to rotate. Only 3d views can be rotated.
+ * @param direction - The direction to turn the front of the model.
+ * @param options - The animation options.
+ * @public
+ */
+export function rotateViewportByQuarterTurn(vp: ScreenViewport, direction: QuarterTurnDirection, options?: RotateViewportOptions) {
+  if (!vp.view.is3d()) return;
+  const angle = Angle.createDegrees(direction === "right" || direction === "down" ? 90 : -90);
+  const modelRotation = direction === "left" || direction === "right"
+    ? Matrix3d.createRotationAroundAxisIndex(AxisIndex.Z, angle)
+    : Matrix3d.createRotationAroundVector(vp.rotation.rowX(), angle);
+  if (modelRotation)
+    rotateViewportTo(vp, vp.rotation.multiplyMatrixMatrix(modelRotation), options);
+}
+
 /**
  * Request that the first open viewport (if there is one) rotate to the specified face, if it is not already facing
  * that way.
@@ -72,21 +183,8 @@ export function rotateFirstViewportToFace(face: Face) {
   const vp = IModelApp.viewManager.getFirstOpenView();
   if (!vp) return;
   const endRotMatrix = vp.rotation.clone();
-  const pos = faceCellToPos(face, 0, 0);
-  let rotMatrix = Matrix3d.createRigidViewAxesZTowardsEye(pos.x, pos.y, pos.z).inverse();
+  const rotMatrix = getCubeCellRotation(endRotMatrix, face, 0, 0);
   if (rotMatrix) {
-    // if isMatrixFace and user is clicking on top/bottom, the current matrix face must be top or bottom
-    if (!isMatrixFace(endRotMatrix) && (face === Face.Top || face === Face.Bottom)) {
-      const angleAxis = endRotMatrix.getAxisAndAngleOfRotation();
-      // istanbul ignore else
-      if (angleAxis.ok) {
-        const xAx = endRotMatrix.columnX();
-        const a = Math.atan2(xAx.y, xAx.x);
-        const r = Math.round(a * 2 / Math.PI) * Math.PI / 2; // round to quarter turn intervals
-        const rot = Matrix3d.createRotationAroundAxisIndex(AxisIndex.Z, Angle.createRadians(r));
-        rotMatrix = rot.multiplyMatrixMatrix(rotMatrix);
-      }
-    }
     if (endRotMatrix.isAlmostEqual(rotMatrix)) return;
     ViewportComponentEvents.onCubeRotationChangeEvent.emit({ rotMatrix, face, complete: true });
     vp.animateFrustumChange();
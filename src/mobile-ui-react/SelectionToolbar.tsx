@@ -0,0 +1,155 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import * as React from "react";
+import classnames from "classnames";
+import { Logger } from "@itwin/core-bentley";
+import { CommonProps } from "@itwin/core-react";
+import { EmphasizeElements, ScreenViewport } from "@itwin/core-frontend";
+import { AlertAction, getEmphasizeElements } from "@itwin/mobile-sdk-core";
+import { CloseableCountNotification, CountNotification } from "./CountNotification";
+import { MobileUi, useEmphasizedCount, useHiddenCount, useIsolatedCount, useSelectionSetCount, useTargetViewport, ViewportTarget } from "./MobileUi";
+import { zoomToElementsInVisibleArea } from "./ZoomToVisibleArea";
+import "./SelectionToolbar.scss";
+
+/**
+ * The names of the built-in actions of {@link SelectionToolbar}.
+ * @public
+ */
+export type SelectionToolbarBuiltInAction = "hide" | "isolate" | "emphasize" | "zoomTo" | "clear";
+
+/**
+ * Properties for the {@link SelectionToolbar} component.
+ * @public
+ */
+// @todo AppUI deprecation
+// eslint-disable-next-line @typescript-eslint/no-deprecated
+export interface SelectionToolbarProps extends CommonProps {
+  /**
+   * The actions offered for the selected elements, in order. Built-in actions are given by name, and custom actions
+   * as an `AlertAction`. Default is ["hide", "isolate", "emphasize", "zoomTo", "clear"].
+   */
+  actions?: Array<SelectionToolbarBuiltInAction | AlertAction>;
+  /** The viewport whose selection and emphasis are shown, default "first". */
+  viewport?: ViewportTarget;
+  /** The title for the action sheet showing the actions. */
+  title?: string;
+  /** Whether or not to show the "N hidden", "N isolated", and "N emphasized" pills, default true. */
+  showEmphasisCounts?: boolean;
+  /**
+   * The callback called when a user selects an action.
+   *
+   * It is your choice whether to use this or the onSelected field of each custom `AlertAction`.
+   */
+  onSelected?: (action: string | undefined) => void;
+}
+
+/**
+ * Calls the given callback with the given viewport and its `EmphasizeElements`, or the ones from
+ * {@link getEmphasizeElements} when no viewport is given.
+ */
+function withEmphasizeElements(viewport: ScreenViewport | undefined, callback: (vp: ScreenViewport, ee: EmphasizeElements) => void) {
+  const [vp, ee] = viewport ? [viewport, EmphasizeElements.getOrCreate(viewport)] : getEmphasizeElements();
+  if (vp && ee)
+    callback(vp, ee);
+}
+
+/**
+ * Creates the built-in action with the given name for {@link SelectionToolbar}.
+ * @param name - The name of the action.
+ * @param viewport - The viewport the action applies to, default is the one from {@link getEmphasizeElements}.
+ * @returns The action.
+ * @public
+ */
+export function createSelectionToolbarAction(name: SelectionToolbarBuiltInAction, viewport?: ScreenViewport): AlertAction {
+  switch (name) {
+    case "hide":
+      return {
+        name,
+        title: MobileUi.translate("selection-toolbar.hide"),
+        onSelected: () => withEmphasizeElements(viewport, (vp, ee) => ee.hideSelectedElements(vp)),
+      };
+    case "isolate":
+      return {
+        name,
+        title: MobileUi.translate("selection-toolbar.isolate"),
+        onSelected: () => withEmphasizeElements(viewport, (vp, ee) => ee.isolateSelectedElements(vp, true)),
+      };
+    case "emphasize":
+      return {
+        name,
+        title: MobileUi.translate("selection-toolbar.emphasize"),
+        onSelected: () => withEmphasizeElements(viewport, (vp, ee) => {
+          ee.wantEmphasis = true;
+          ee.emphasizeSelectedElements(vp, undefined, true);
+        }),
+      };
+    case "zoomTo":
+      return {
+        name,
+        title: MobileUi.translate("selection-toolbar.zoom-to"),
+        onSelected: () => withEmphasizeElements(viewport, (vp) => {
+          zoomToElementsInVisibleArea(vp, vp.iModel.selectionSet.elements).catch((error) => Logger.logException("mobile-ui-react", error));
+        }),
+      };
+    case "clear":
+      return {
+        name,
+        title: MobileUi.translate("selection-toolbar.clear"),
+        onSelected: () => withEmphasizeElements(viewport, (vp) => vp.iModel.selectionSet.emptyAll()),
+      };
+  }
+}
+
+/**
+ * A React component that shows the number of selected elements along with a more button offering actions for them
+ * (hide, isolate, emphasize, zoom to, and clear by default), while the selection is not empty. It also shows pills
+ * with the number of hidden, isolated, and emphasized elements, which restore the elements when closed.
+ *
+ * Note: The pills are arrayed in a horizontal flex layout.
+ * @public
+ */
+export function SelectionToolbar(props: SelectionToolbarProps) {
+  const { className, style, viewport = "first", actions = ["hide", "isolate", "emphasize", "zoomTo", "clear"], title, showEmphasisCounts = true, onSelected } = props;
+  const targetViewport = useTargetViewport(viewport);
+  const selectionCount = useSelectionSetCount(viewport);
+  const hiddenCount = useHiddenCount(viewport);
+  const isolatedCount = useIsolatedCount(viewport);
+  const emphasizedCount = useEmphasizedCount(viewport);
+  const alertActions = React.useMemo(() => actions.map((action) => typeof action === "string" ? createSelectionToolbarAction(action, targetViewport) : action), [actions, targetViewport]);
+  const showEmphasis = showEmphasisCounts && hiddenCount + isolatedCount + emphasizedCount > 0;
+
+  if (selectionCount === 0 && !showEmphasis)
+    return null;
+
+  return (
+    <div className={classnames("mui-selection-toolbar", className)} style={style}>
+      {selectionCount > 0 &&
+        <CountNotification
+          count={selectionCount}
+          label={MobileUi.translate("selection-toolbar.selected")}
+          moreButtonProps={{ title, actions: alertActions }}
+          onSelected={onSelected}
+        />
+      }
+      {showEmphasisCounts && <>
+        <CloseableCountNotification
+          count={hiddenCount}
+          label={MobileUi.translate("selection-toolbar.hidden")}
+          onClose={() => withEmphasizeElements(targetViewport, (vp, ee) => ee.clearHiddenElements(vp))}
+        />
+        <CloseableCountNotification
+          count={isolatedCount}
+          label={MobileUi.translate("selection-toolbar.isolated")}
+          onClose={() => withEmphasizeElements(targetViewport, (vp, ee) => ee.clearIsolatedElements(vp))}
+        />
+        <CloseableCountNotification
+          count={emphasizedCount}
+          label={MobileUi.translate("selection-toolbar.emphasized")}
+          onClose={() => withEmphasizeElements(targetViewport, (vp, ee) => ee.clearEmphasizedElements(vp))}
+        />
+      </>}
+    </div>
+  );
+}
@@ -9,6 +9,8 @@ import { ColorDef } from "@itwin/core-common";
 import { BottomPanelProps } from "./BottomPanel";
 import { HorizontalScrollableWithFades } from "./ScrollableWithFades";
 import { useHorizontalScrollChildVisibleOnResize } from "./MobileUi";
+import { useNavigationEntry } from "./NavigationStack";
+import { HashPanelLocationStore, PanelLocation, panelLocationsEqual, PanelLocationStore, PanelParams } from "./PanelRouting";
 
 import "./TabBar.scss";
 
@@ -131,8 +133,13 @@ export interface TabsAndStandAlonePanelsAPI {
   /**
    * Opens the specified panel
    * @param labelOrIndex - the label or index of the tab/panel in the array.
+   * @param params - the parameters of the panel, default none.
    */
-  openPanel: (labelOrIndex: string | number) => void;
+  openPanel: (labelOrIndex: string | number, params?: PanelParams) => void;
+  /** The parameters of the selected panel, for example from a deep link. */
+  panelParams: PanelParams;
+  /** Sets the parameters of the selected panel, replacing the current location when routing. */
+  setPanelParams: (params: PanelParams) => void;
   /**
    * Renders the TabBar and stand-alone panels, this should be called in the parent's rendering section of code.
    * @returns A React fragment with the TabBar and the stand-alone panels.
@@ -144,12 +151,29 @@ export interface TabsAndStandAlonePanelsAPI {
   autoCloseHandler: () => number;
 }
 
+/**
+ * Options for routing in {@link useTabsAndStandAlonePanels}.
+ * @public
+ */
+export interface TabsAndStandAlonePanelsRouting {
+  /**
+   * The store that the selected panel (by label) and its parameters are synced to, for example a
+   * {@link HashPanelLocationStore}. The panel in the store's location is opened when the hook is first used, and
+   * whenever the store's location changes (for example from a deep link or browser history back and forward).
+   */
+  store: PanelLocationStore;
+}
+
 /**
  * A custom hook that manages the interaction between tabs and stand-alone panels.
+ * @param initialSelectedPanel - The initially selected panel, ignored when routing opens a panel.
+ * @param routing - Optional routing options. When undefined, the selected panel is only kept in React state.
  * @public
  */
-export function useTabsAndStandAlonePanels(initialSelectedPanel?: number): TabsAndStandAlonePanelsAPI {
+export function useTabsAndStandAlonePanels(initialSelectedPanel?: number, routing?: TabsAndStandAlonePanelsRouting): TabsAndStandAlonePanelsAPI {
+  const store = routing?.store;
   const [selectedPanel, internalSetSelectedPanel] = React.useState(initialSelectedPanel);
+  const [panelParams, internalSetPanelParams] = React.useState<PanelParams>({});
   const [openCloseTiming, setOpenCloseTiming] = React.useState(0);
   const lastSelectedPanel = React.useRef<number>();
   const panelsRef = React.useRef<TabOrPanelDef[]>();
@@ -171,11 +195,15 @@ export function useTabsAndStandAlonePanels(initialSelectedPanel?: number): TabsA
       }
       return newIndex;
     });
+    // The parameters belong to the previously selected panel.
+    if (newIndex !== selectedPanel)
+      internalSetPanelParams({});
   };
 
   const closeSelectedPanel = (openLastSelected: boolean = false) => {
     if (openLastSelected && panelsRef.current && lastSelectedPanel.current !== undefined && lastSelectedPanel.current < panelsRef.current.length) {
       internalSetSelectedPanel(lastSelectedPanel.current);
+      internalSetPanelParams({});
       lastSelectedPanel.current = undefined;
     } else {
       setSelectedPanel(undefined);
@@ -186,6 +214,9 @@ export function useTabsAndStandAlonePanels(initialSelectedPanel?: number): TabsA
     setOpenCloseTiming(getCssVariableAsNumber("--mui-bottom-panel-animation-duration") * 1000);
   }, []);
 
+  // Going back closes the selected panel, returning to the previously selected tab when there is one.
+  useNavigationEntry(selectedPanel !== undefined, () => closeSelectedPanel(true), "tab-or-panel");
+
   const autoCloseHandler = () => {
     closeSelectedPanel();
     return openCloseTiming + 100;
@@ -197,13 +228,57 @@ export function useTabsAndStandAlonePanels(initialSelectedPanel?: number): TabsA
     return panels.findIndex((value) => value.label === labelOrIndex);
   };
 
-  const openPanel = (labelOrIndex: string | number) => {
+  const openPanel = (labelOrIndex: string | number, params: PanelParams = {}) => {
     const panels = panelsRef.current ?? [];
     const idx = getIndex(panels, labelOrIndex);
     if (idx >= 0 && idx < panels.length) {
       setSelectedPanel(idx);
+      internalSetPanelParams(params);
+    }
+  };
+
+  const setPanelParams = (params: PanelParams) => {
+    internalSetPanelParams(params);
+  };
+
+  // Open the panel in the store's location now, and each time the location changes outside of this hook.
+  const applyLocationRef = React.useRef<(location: PanelLocation) => void>();
+  applyLocationRef.current = (location: PanelLocation) => {
+    const panels = panelsRef.current ?? [];
+    const idx = location.panel !== undefined ? panels.findIndex((value) => value.label === location.panel) : -1;
+    if (idx === -1) {
+      setSelectedPanel(undefined);
+      internalSetPanelParams({});
+    } else {
+      setSelectedPanel(idx);
+      internalSetPanelParams(location.params);
     }
   };
+  React.useEffect(() => {
+    if (!store)
+      return;
+    if (store.location.panel !== undefined)
+      applyLocationRef.current?.(store.location);
+    return store.onChanged.addListener((location) => applyLocationRef.current?.(location));
+  }, [store]);
+
+  // Sync the selected panel and its parameters to the store. Changing only the parameters replaces the location.
+  const syncedPanelRef = React.useRef<string>();
+  const isInitialSyncRef = React.useRef(true);
+  React.useEffect(() => {
+    if (!store)
+      return;
+    const label = selectedPanel !== undefined ? panelsRef.current?.[selectedPanel]?.label : undefined;
+    const location: PanelLocation = { panel: label, params: label !== undefined ? panelParams : {} };
+    // Do not overwrite a deep link in the initial location before it has been applied.
+    const isInitialSync = isInitialSyncRef.current;
+    isInitialSyncRef.current = false;
+    if (isInitialSync && store.location.panel !== undefined)
+      return;
+    if (!panelLocationsEqual(location, store.location))
+      store.setLocation(location, label === syncedPanelRef.current);
+    syncedPanelRef.current = label;
+  }, [store, selectedPanel, panelParams]);
 
   const renderTabBarAndPanels = () => {
     const panels = panelsRef.current ?? [];
@@ -219,5 +294,5 @@ export function useTabsAndStandAlonePanels(initialSelectedPanel?: number): TabsA
     </>;
   };
 
-  return { setPanels, selectedPanel, setSelectedPanel, closeSelectedPanel, openPanel, renderTabBarAndPanels, openCloseTiming, autoCloseHandler };
+  return { setPanels, selectedPanel, setSelectedPanel, closeSelectedPanel, openPanel, panelParams, setPanelParams, renderTabBarAndPanels, openCloseTiming, autoCloseHandler };
 }
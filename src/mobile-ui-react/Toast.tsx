@@ -0,0 +1,262 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import * as React from "react";
+import classnames from "classnames";
+import { BeUiEvent } from "@itwin/core-bentley";
+import { CommonProps } from "@itwin/core-react";
+import { getCssVariableAsNumberOrDefault } from "@itwin/mobile-sdk-core";
+import { useBottomPanelTop } from "./BottomPanel";
+import { useKeyboardHeight } from "./KeyboardTracker";
+import { useBeUiEvent } from "./MobileUi";
+import { MobileUiContent } from "./MobileUiContent";
+import "./Toast.scss";
+
+/**
+ * The severity of a toast, which determines its accent color.
+ * @public
+ */
+export type ToastSeverity = "info" | "success" | "warning" | "error";
+
+/**
+ * An action button shown in a toast.
+ * @public
+ */
+export interface ToastAction {
+  /** The text of the button, for example "Undo". */
+  title: string;
+  /** Called when the user taps the button. The toast is dismissed afterwards. */
+  onSelected: () => void;
+}
+
+/**
+ * Options passed to {@link ToastManager.show}.
+ * @public
+ */
+export interface ToastOptions {
+  /** The message to show. */
+  message: string;
+  /** The severity of the toast, default is "info". */
+  severity?: ToastSeverity;
+  /** An optional action button. */
+  action?: ToastAction;
+  /**
+   * The time in ms before the toast is automatically dismissed, default is 4000, or 6000 for toasts with an action.
+   * Use 0 to only dismiss the toast when the user swipes it away or taps its action.
+   */
+  duration?: number;
+}
+
+/**
+ * Information about a toast in the {@link ToastManager} queue.
+ * @public
+ */
+export interface ToastInfo extends ToastOptions {
+  /** The id returned by {@link ToastManager.show}. */
+  id: string;
+  /** Whether or not the toast is animating out after being dismissed. */
+  isDismissing: boolean;
+}
+
+/**
+ * Arguments for the {@link ToastManager.onChanged} event.
+ * @public
+ */
+export interface ToastsChangedArgs {
+  /** The toast currently shown, or undefined when no toast is shown. */
+  current?: ToastInfo;
+}
+
+/**
+ * Class that shows transient, non-blocking messages, such as "Saved" or "3 elements hidden — Undo", one at a time in the
+ * order they were requested. A {@link ToastContainer} must be rendered for the toasts to be visible.
+ * @public
+ */
+export class ToastManager {
+  private static _queue: ToastInfo[] = [];
+  private static _nextId = 0;
+  private static _timer?: ReturnType<typeof setTimeout>;
+
+  /** BeUiEvent emitted when the current toast changes or starts being dismissed. */
+  public static readonly onChanged = new BeUiEvent<ToastsChangedArgs>();
+
+  /** The toast currently shown, or undefined when no toast is shown. */
+  public static get current(): ToastInfo | undefined {
+    return this._queue[0];
+  }
+
+  /**
+   * Shows a toast after all the toasts before it have been dismissed.
+   * @param options - The toast to show, or just its message.
+   * @returns The id of the toast, to pass to {@link ToastManager.dismiss}.
+   */
+  public static show(options: ToastOptions | string) {
+    const id = `mui-toast-${++this._nextId}`;
+    this._queue.push({ ...(typeof options === "string" ? { message: options } : options), id, isDismissing: false });
+    if (this._queue.length === 1)
+      this.showCurrent();
+    return id;
+  }
+
+  /**
+   * Dismisses a toast, or removes it from the queue if it has not been shown yet.
+   * @param id - The id of the toast, default is the current toast.
+   */
+  public static dismiss(id?: string) {
+    const index = id === undefined ? 0 : this._queue.findIndex((queued) => queued.id === id);
+    const toast = this._queue[index];
+    if (!toast || toast.isDismissing)
+      return;
+    if (index > 0) {
+      this._queue.splice(index, 1);
+      return;
+    }
+    this.clearTimer();
+    this._queue[0] = { ...toast, isDismissing: true };
+    this.emitChanged();
+    // Wait for the toast to animate out before showing the next one.
+    const animationDuration = getCssVariableAsNumberOrDefault("--mui-toast-animation-duration", .25) * 1000;
+    setTimeout(() => {
+      this._queue.shift();
+      this.showCurrent();
+    }, animationDuration);
+  }
+
+  /** Dismisses the current toast and removes all queued toasts. */
+  public static clear() {
+    this._queue.splice(1);
+    this.dismiss();
+  }
+
+  private static showCurrent() {
+    const toast = this._queue[0];
+    this.emitChanged();
+    if (!toast)
+      return;
+    const duration = toast.duration ?? (toast.action ? 6000 : 4000);
+    if (duration > 0)
+      this._timer = setTimeout(() => this.dismiss(toast.id), duration);
+  }
+
+  private static clearTimer() {
+    if (this._timer !== undefined) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+  }
+
+  private static emitChanged() {
+    this.onChanged.emit({ current: this._queue[0] });
+  }
+}
+
+/** The distance in pixels a toast must be swiped to dismiss it. */
+const swipeDismissDistance = 80;
+
+/**
+ * Properties for the {@link ToastContainer} component.
+ * @public
+ */
+// @todo AppUI deprecation
+// eslint-disable-next-line @typescript-eslint/no-deprecated
+export interface ToastContainerProps extends CommonProps {
+  /** The space in pixels between the toast and the tab bar or open bottom panel below it, default 8. */
+  margin?: number;
+}
+
+/**
+ * A React component that shows the toasts from {@link ToastManager} above the tab bar, any open bottom panel, and the
+ * virtual keyboard. Render one of these at the top level of the app, for example inside {@link MobileUiContent}.
+ * @public
+ */
+export function ToastContainer(props: ToastContainerProps) {
+  const { className, style, margin = 8 } = props;
+  const [toast, setToast] = React.useState(ToastManager.current);
+  const [visible, setVisible] = React.useState(false);
+  const [dragX, setDragX] = React.useState(0);
+  const dragStart = React.useRef<{ x: number, time: number }>();
+  const bottomPanelTop = useBottomPanelTop();
+  const keyboardHeight = useKeyboardHeight();
+
+  useBeUiEvent(React.useCallback((args: ToastsChangedArgs) => setToast(args.current), []), ToastManager.onChanged);
+
+  const toastId = toast?.id;
+  React.useEffect(() => {
+    // Render new toasts hidden, then show them so that they animate in.
+    setDragX(0);
+    setVisible(false);
+    if (toastId === undefined)
+      return;
+    const timer = setTimeout(() => setVisible(true), 0);
+    return () => clearTimeout(timer);
+  }, [toastId]);
+
+  // Stay above the open bottom panel, or the tab bar when no panel is open, and always above the keyboard.
+  const bottom = bottomPanelTop !== undefined ? window.innerHeight - bottomPanelTop : undefined;
+  const containerStyle: React.CSSProperties = {
+    ...style,
+    bottom: `calc(${bottom !== undefined ? `max(${bottom}px, ${keyboardHeight}px)` : `max(var(--mui-current-tab-bar-height) + var(--itm-safe-area-bottom), ${keyboardHeight}px)`} + ${margin}px)`,
+  };
+  // The container is the live region, and it stays rendered so that screen readers announce each new toast.
+  const isUrgent = toast?.severity === "error" || toast?.severity === "warning";
+  const containerProps = {
+    className: classnames("mui-toast-container", className),
+    style: containerStyle,
+    role: "status",
+    "aria-live": isUrgent ? "assertive" : "polite",
+  } as const;
+
+  if (!toast)
+    return <div {...containerProps} />;
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!e.isPrimary) return;
+    dragStart.current = { x: e.clientX, time: Date.now() };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!e.isPrimary || !dragStart.current) return;
+    setDragX(e.clientX - dragStart.current.x);
+  };
+
+  const onPointerEnd = (e: React.PointerEvent) => {
+    if (!e.isPrimary || !dragStart.current) return;
+    const dragged = e.clientX - dragStart.current.x;
+    const speed = Math.abs(dragged) / Math.max(Date.now() - dragStart.current.time, 1);
+    dragStart.current = undefined;
+    // Far enough or a quick flick dismisses the toast; otherwise it snaps back.
+    if (Math.abs(dragged) >= swipeDismissDistance || (speed > 0.5 && Math.abs(dragged) > 10))
+      ToastManager.dismiss(toast.id);
+    else
+      setDragX(0);
+  };
+
+  const onActionClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    toast.action?.onSelected();
+    ToastManager.dismiss(toast.id);
+  };
+
+  const isShown = visible && !toast.isDismissing;
+  const isDragging = dragStart.current !== undefined;
+  return (
+    <div {...containerProps}>
+      <div
+        key={toast.id}
+        className={classnames("mui-toast", `mui-toast-${toast.severity ?? "info"}`, isShown && "mui-toast-shown", isDragging && "mui-toast-dragging")}
+        style={dragX !== 0 ? { transform: `translateX(${dragX}px)`, opacity: Math.max(1 - Math.abs(dragX) / (swipeDismissDistance * 2), 0) } : undefined}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerEnd}
+        onPointerCancel={onPointerEnd}
+      >
+        <div className="mui-toast-message">{toast.message}</div>
+        {toast.action && <button type="button" className="mui-toast-action" onPointerDown={(e) => e.stopPropagation()} onClick={onActionClick}>
+          {toast.action.title}
+        </button>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import * as React from "react";
+import { Id64, Id64String, Logger } from "@itwin/core-bentley";
+import { Geometry, Point3d } from "@itwin/core-geometry";
+import { EmphasizeElements, IModelApp, InputSource, LocateResponse, ScreenViewport } from "@itwin/core-frontend";
+import { AlertAction, AlertActionStyle, MobileCore } from "@itwin/mobile-sdk-core";
+import { MobileUi, useSelectedViewport } from "./MobileUi";
+import { ActionSheetConfig, ActionSheetPresentation, presentMobileUiActionSheet } from "./WebActionSheet";
+import { zoomToElementsInVisibleArea } from "./ZoomToVisibleArea";
+import "./ViewportContextMenu.scss";
+
+/**
+ * Information about the element the user long-pressed in a viewport.
+ * @public
+ */
+export interface ViewportContextMenuHit {
+  /** The viewport that was long-pressed. */
+  viewport: ScreenViewport;
+  /** The id of the element that was long-pressed. */
+  elementId: Id64String;
+  /** The world location of the hit on the element. */
+  hitPoint: Point3d;
+  /** The screen rectangle (with zero size) of the touch location, used to anchor the menu. */
+  sourceRect: DOMRect;
+}
+
+/**
+ * Options for {@link useViewportLongPress}.
+ * @public
+ */
+export interface ViewportLongPressOptions {
+  /** The time in ms a pointer must be held down to count as a long press, default 500. */
+  duration?: number;
+  /** The distance in pixels a pointer can move before the long press is canceled, default 10. */
+  moveTolerance?: number;
+  /** Whether or not a right-click with a mouse also counts as a long press, default true. */
+  includeContextMenuEvent?: boolean;
+}
+
+/**
+ * Custom React hook that calls the given handler when the user long-presses (or right-clicks) the given viewport. The
+ * long press is canceled when the pointer moves, is released, or a second pointer touches the viewport (for example to
+ * pinch-zoom).
+ * @param vp - The viewport, or undefined to do nothing.
+ * @param handler - The callback, which is passed the client location of the long press. Errors from an asynchronous
+ * callback are logged.
+ * @param options - The long press options.
+ * @public
+ */
+export function useViewportLongPress(vp: ScreenViewport | undefined, handler: (clientX: number, clientY: number) => void | Promise<void>, options?: ViewportLongPressOptions) {
+  const { duration = 500, moveTolerance = 10, includeContextMenuEvent = true } = options ?? {};
+  const handlerRef = React.useRef(handler);
+  handlerRef.current = handler;
+
+  React.useEffect(() => {
+    const parentDiv = vp?.parentDiv;
+    if (!parentDiv)
+      return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let start: { pointerId: number, x: number, y: number } | undefined;
+    // Some browsers also send a contextmenu event for a touch long press, which must not be handled a second time.
+    let suppressContextMenu = false;
+
+    const callHandler = (clientX: number, clientY: number) => {
+      Promise.resolve(handlerRef.current(clientX, clientY)).catch((error) => Logger.logException("mobile-ui-react", error));
+    };
+    const cancel = () => {
+      if (timer !== undefined)
+        clearTimeout(timer);
+      timer = undefined;
+      start = undefined;
+    };
+    const onPointerDown = (e: PointerEvent) => {
+      if (!e.isPrimary || e.button !== 0) {
+        // A second pointer means a multi-touch gesture, not a long press.
+        cancel();
+        return;
+      }
+      cancel();
+      suppressContextMenu = false;
+      const { clientX, clientY } = e;
+      start = { pointerId: e.pointerId, x: clientX, y: clientY };
+      timer = setTimeout(() => {
+        cancel();
+        suppressContextMenu = true;
+        callHandler(clientX, clientY);
+      }, duration);
+    };
+    const onPointerMove = (e: PointerEvent) => {
+      if (start?.pointerId === e.pointerId && Geometry.hypotenuseXY(e.clientX - start.x, e.clientY - start.y) > moveTolerance)
+        cancel();
+    };
+    const onPointerEnd = (e: PointerEvent) => {
+      if (start?.pointerId === e.pointerId)
+        cancel();
+    };
+    const onContextMenu = (e: MouseEvent) => {
+      if (!includeContextMenuEvent && !suppressContextMenu)
+        return;
+      e.preventDefault();
+      // Touch long presses have already been handled by the timer.
+      if (!suppressContextMenu) {
+        cancel();
+        callHandler(e.clientX, e.clientY);
+      }
+      suppressContextMenu = false;
+    };
+
+    parentDiv.classList.add("mui-long-press-target");
+    parentDiv.addEventListener("pointerdown", onPointerDown, true);
+    parentDiv.addEventListener("pointermove", onPointerMove, true);
+    parentDiv.addEventListener("pointerup", onPointerEnd, true);
+    parentDiv.addEventListener("pointercancel", onPointerEnd, true);
+    parentDiv.addEventListener("contextmenu", onContextMenu);
+    return () => {
+      cancel();
+      parentDiv.classList.remove("mui-long-press-target");
+      parentDiv.removeEventListener("pointerdown", onPointerDown, true);
+      parentDiv.removeEventListener("pointermove", onPointerMove, true);
+      parentDiv.removeEventListener("pointerup", onPointerEnd, true);
+      parentDiv.removeEventListener("pointercancel", onPointerEnd, true);
+      parentDiv.removeEventListener("contextmenu", onContextMenu);
+    };
+  }, [vp, duration, moveTolerance, includeContextMenuEvent]);
+}
+
+/**
+ * Finds the element at the given client location in the given viewport.
+ * @param vp - The viewport.
+ * @param clientX - The x client coordinate.
+ * @param clientY - The y client coordinate.
+ * @returns The hit, or undefined if there is no element at the location.
+ * @public
+ */
+export async function locateViewportElement(vp: ScreenViewport, clientX: number, clientY: number): Promise<ViewportContextMenuHit | undefined> {
+  const rect = vp.getClientRect();
+  const worldPoint = vp.viewToWorld(new Point3d(clientX - rect.left, clientY - rect.top));
+  const hit = await IModelApp.locateManager.doLocate(new LocateResponse(), true, worldPoint, vp, InputSource.Touch);
+  if (!hit?.isElementHit || !Id64.isValidId64(hit.sourceId))
+    return undefined;
+  return { viewport: vp, elementId: hit.sourceId, hitPoint: hit.hitPoint, sourceRect: new DOMRect(clientX, clientY, 0, 0) };
+}
+
+/**
+ * The names of the built-in actions of {@link ViewportContextMenu}.
+ * @public
+ */
+export type ViewportContextMenuBuiltInAction = "hide" | "isolate" | "zoomTo" | "properties";
+
+/**
+ * Options for {@link ViewportContextMenu.createDefaultActions}.
+ * @public
+ */
+export interface ViewportContextMenuDefaultActionsOptions {
+  /** The built-in actions to include, in order, default all of them. "properties" is only included when onShowProperties is set. */
+  include?: ViewportContextMenuBuiltInAction[];
+  /** Callback for the "properties" action. */
+  onShowProperties?: (hit: ViewportContextMenuHit) => void;
+}
+
+/**
+ * Properties for the {@link ViewportContextMenu} component.
+ * @public
+ */
+export interface ViewportContextMenuProps extends ViewportLongPressOptions, ViewportContextMenuDefaultActionsOptions {
+  /** The viewport, default is the selected viewport. */
+  viewport?: ScreenViewport;
+  /**
+   * Returns the actions to show for the given hit, default {@link ViewportContextMenu.createDefaultActions}. A Cancel
+   * action is added when the returned actions do not include one. Return an empty array to not show a menu.
+   */
+  getActions?: (hit: ViewportContextMenuHit) => AlertAction[] | Promise<AlertAction[]>;
+  /** Returns the title of the menu for the given hit, default none. */
+  getTitle?: (hit: ViewportContextMenuHit) => string | undefined | Promise<string | undefined>;
+  /** Whether or not the long-pressed element replaces the selection before the menu is shown, default true. */
+  selectElement?: boolean;
+  /** How the menu is presented, default {@link ActionSheetConfig.presentation}. */
+  presentation?: ActionSheetPresentation;
+  /** Callback called after the user selects an action, or dismisses the menu (with undefined). */
+  onSelected?: (actionName: string | undefined, hit: ViewportContextMenuHit) => void;
+}
+
+/**
+ * A React component that shows a context menu when the user long-presses an element in the viewport. It does not
+ * render anything itself; render it anywhere inside the app while the viewport is shown.
+ *
+ * The menu is anchored at the touch location. By default it offers Hide, Isolate, and Zoom To, plus Properties when
+ * onShowProperties is set.
+ * @public
+ */
+export function ViewportContextMenu(props: ViewportContextMenuProps) {
+  const { viewport, duration, moveTolerance, includeContextMenuEvent } = props;
+  const selectedViewport = useSelectedViewport();
+  const vp = viewport ?? selectedViewport;
+  const propsRef = React.useRef(props);
+  propsRef.current = props;
+  const isShowingRef = React.useRef(false);
+
+  const onLongPress = React.useCallback(async (clientX: number, clientY: number) => {
+    if (!vp || isShowingRef.current)
+      return;
+    isShowingRef.current = true;
+    try {
+      const { getActions, getTitle, selectElement = true, presentation, onSelected } = propsRef.current;
+      const hit = await locateViewportElement(vp, clientX, clientY);
+      if (!hit)
+        return;
+      if (selectElement)
+        vp.iModel.selectionSet.replace(hit.elementId);
+      const actions = [...await (getActions ?? ((h) => ViewportContextMenu.createDefaultActions(h, propsRef.current)))(hit)];
+      if (actions.length === 0)
+        return;
+      if (!actions.some((action) => action.style === AlertActionStyle.Cancel))
+        actions.push({ name: "cancel", title: MobileCore.translate("general.cancel"), style: AlertActionStyle.Cancel });
+      const title = await getTitle?.(hit);
+      const actionName = await presentMobileUiActionSheet({ title, actions }, hit.sourceRect, presentation);
+      onSelected?.(actionName, hit);
+    } finally {
+      isShowingRef.current = false;
+    }
+  }, [vp]);
+
+  useViewportLongPress(vp, onLongPress, { duration, moveTolerance, includeContextMenuEvent });
+  return null;
+}
+
+/**
+ * Creates the built-in actions of {@link ViewportContextMenu} for the given hit. The emphasis actions use the
+ * `EmphasizeElements` of the hit's viewport.
+ * @param hit - The long-pressed element.
+ * @param options - Which actions to include.
+ * @returns The actions.
+ * @public
+ */
+ViewportContextMenu.createDefaultActions = (hit: ViewportContextMenuHit, options?: ViewportContextMenuDefaultActionsOptions): AlertAction[] => {
+  const { include = ["hide", "isolate", "zoomTo", "properties"], onShowProperties } = options ?? {};
+  const withEmphasizeElements = (callback: (vp: ScreenViewport, ee: EmphasizeElements) => void) => () => {
+    callback(hit.viewport, EmphasizeElements.getOrCreate(hit.viewport));
+  };
+  const allActions: { [key in ViewportContextMenuBuiltInAction]: AlertAction | undefined } = {
+    hide: {
+      name: "hide",
+      title: MobileUi.translate("viewport-context-menu.hide"),
+      onSelected: withEmphasizeElements((vp, ee) => {
+        ee.hideElements(hit.elementId, vp, false);
+        vp.iModel.selectionSet.remove(hit.elementId);
+      }),
+    },
+    isolate: {
+      name: "isolate",
+      title: MobileUi.translate("viewport-context-menu.isolate"),
+      onSelected: withEmphasizeElements((vp, ee) => ee.isolateElements(hit.elementId, vp, true)),
+    },
+    zoomTo: {
+      name: "zoomTo",
+      title: MobileUi.translate("viewport-context-menu.zoom-to"),
+      onSelected: () => {
+        zoomToElementsInVisibleArea(hit.viewport, hit.elementId).catch((error) => Logger.logException("mobile-ui-react", error));
+      },
+    },
+    properties: onShowProperties ? {
+      name: "properties",
+      title: MobileUi.translate("viewport-context-menu.properties"),
+      onSelected: () => onShowProperties(hit),
+    } : undefined,
+  };
+  return include.map((name) => allActions[name]).filter((action): action is AlertAction => action !== undefined);
+};
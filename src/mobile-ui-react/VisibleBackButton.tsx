@@ -7,6 +7,7 @@ import ReactDOM from "react-dom";
 import classnames from "classnames";
 import { IconSpec } from "@itwin/core-react";
 import { NavigationButton, NavigationButtonProps } from "./NavigationPanel";
+import { NavigationStack, useNavigationStackDepth } from "./NavigationStack";
 import "./VisibleBackButton.scss";
 
 import { Back as BackSvg } from "./images-tsx";
@@ -16,6 +17,11 @@ import { Back as BackSvg } from "./images-tsx";
  */
 export interface VisibleBackButtonProps extends Omit<NavigationButtonProps, "iconSpec"> {
   iconSpec?: IconSpec; // eslint-disable-line @typescript-eslint/no-deprecated
+  /**
+   * When true, the button is only shown while the {@link NavigationStack} has entries, and tapping it goes back to the
+   * top entry unless onClick is set. Default is false.
+   */
+  followNavigationStack?: boolean;
 }
 
 /**
@@ -33,10 +39,14 @@ function VisibleBackButtonSpacer(_props: object) {
  * NOTE: This must be the first element in the left controls of a NavigationPanel in order to work right.
  */
 export function VisibleBackButton(props: VisibleBackButtonProps) {
-  const { className, ...otherProps } = props;
+  const { className, followNavigationStack = false, onClick, ...otherProps } = props;
+  const navigationStackDepth = useNavigationStackDepth();
+  if (followNavigationStack && navigationStackDepth === 0)
+    return null;
   const buttonDiv = (
     <BackButton
       className={classnames("visible-back-button", className)}
+      onClick={onClick ?? (followNavigationStack ? () => NavigationStack.goBack() : undefined)}
       {...otherProps}
     />
   );
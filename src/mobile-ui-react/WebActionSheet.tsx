@@ -0,0 +1,252 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import * as React from "react";
+import classnames from "classnames";
+import { BeUiEvent, Logger, ProcessDetector } from "@itwin/core-bentley";
+import { CommonProps } from "@itwin/core-react";
+import { ActionSheetProps, AlertAction, AlertActionStyle, getCssVariableAsNumberOrDefault, presentActionSheet } from "@itwin/mobile-sdk-core";
+import { getSideSheetMediaQuery } from "./BottomPanel";
+import { MobileUi, useBeUiEvent, useMediaQuery } from "./MobileUi";
+import { ModalDialogStack } from "./ModalEntryFormDialog";
+import { useNavigationEntry } from "./NavigationStack";
+import "./WebActionSheet.scss";
+
+/**
+ * How action sheets are presented:
+ * - "native": Always use the native action sheet from {@link presentActionSheet} in mobile-sdk-core.
+ * - "web": Always use {@link WebActionSheet}.
+ * - "auto": Use the native action sheet when running in a mobile app, and {@link WebActionSheet} otherwise (for example
+ *   in a browser during development, or in tests).
+ * @public
+ */
+export type ActionSheetPresentation = "auto" | "native" | "web";
+
+/**
+ * Properties for the {@link WebActionSheet} component.
+ * @public
+ */
+// @todo AppUI deprecation
+// eslint-disable-next-line @typescript-eslint/no-deprecated
+export interface WebActionSheetProps extends ActionSheetProps, CommonProps {
+  /**
+   * The screen rectangle of the component that showed the action sheet. On wide screens, the action sheet is shown as
+   * a popover next to this rectangle. When undefined, or on narrow screens, the action sheet slides up from the bottom.
+   */
+  sourceRect?: DOMRect;
+  /**
+   * The media query that determines when the action sheet is shown as a popover, default {@link getSideSheetMediaQuery}.
+   */
+  popoverMediaQuery?: string;
+  /** Callback called with the name of the selected action, or undefined if the user dismissed the action sheet. */
+  onSelected: (actionName: string | undefined) => void;
+  /** Set to true to animate the action sheet out. */
+  isClosing?: boolean;
+}
+
+/** The space in pixels between a popover and its source rectangle or the edge of the window. */
+const popoverMargin = 8;
+
+/**
+ * Gets the position of a popover of the given size so that it is below the source rectangle if it fits, above it
+ * otherwise, and horizontally centered on it while staying inside the window.
+ */
+function getPopoverPosition(sourceRect: DOMRect, width: number, height: number) {
+  const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(value, max));
+  const left = clamp(sourceRect.left + (sourceRect.width - width) / 2, popoverMargin, window.innerWidth - width - popoverMargin);
+  const below = sourceRect.bottom + popoverMargin;
+  const above = sourceRect.top - popoverMargin - height;
+  const top = below + height <= window.innerHeight - popoverMargin || above < popoverMargin ? below : above;
+  return { left, top: clamp(top, popoverMargin, Math.max(window.innerHeight - height - popoverMargin, popoverMargin)) };
+}
+
+/**
+ * A React component that shows an action sheet without using the native UI. It accepts the same properties as
+ * {@link presentActionSheet} in mobile-sdk-core. On wide screens, it is a popover next to the source rectangle; on
+ * phones, it slides up from the bottom of the screen, with any cancel action shown separately below the others.
+ *
+ * Use {@link WebActionSheet.run} to show it, or {@link presentMobileUiActionSheet} to pick between it and the native
+ * action sheet.
+ * @public
+ */
+export function WebActionSheet(props: WebActionSheetProps) {
+  const { className, style, title, message, actions, sourceRect, popoverMediaQuery = getSideSheetMediaQuery(), onSelected, isClosing } = props;
+  const isWide = useMediaQuery(popoverMediaQuery);
+  const isPopover = isWide && sourceRect !== undefined;
+  const [shown, setShown] = React.useState(false);
+  const [popoverPosition, setPopoverPosition] = React.useState<{ left: number, top: number }>();
+  const sheetRef = React.useRef<HTMLDivElement>(null);
+  const titleId = React.useId();
+  const cancelAction = actions.find((action) => action.style === AlertActionStyle.Cancel);
+  const otherActions = actions.filter((action) => action !== cancelAction);
+
+  React.useLayoutEffect(() => {
+    const sheet = sheetRef.current;
+    if (!isPopover || !sheet) {
+      setPopoverPosition(undefined);
+      return;
+    }
+    setPopoverPosition(getPopoverPosition(sourceRect, sheet.offsetWidth, sheet.offsetHeight));
+  }, [isPopover, sourceRect, actions]);
+
+  React.useEffect(() => {
+    // Create the sheet hidden, then show it so that it animates in.
+    const timer = setTimeout(() => setShown(true), 0);
+    // Move focus to the first action, and return it to the component that showed the sheet afterwards.
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : undefined;
+    sheetRef.current?.querySelector<HTMLElement>("button")?.focus({ preventScroll: true });
+    return () => {
+      clearTimeout(timer);
+      if (opener?.isConnected)
+        opener.focus({ preventScroll: true });
+    };
+  }, []);
+
+  const dismiss = () => onSelected(cancelAction?.name);
+  useNavigationEntry(!isClosing, dismiss, "action-sheet");
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      e.stopPropagation();
+      dismiss();
+    }
+  };
+
+  const renderButton = (action: AlertAction) => (
+    <button
+      key={action.name}
+      type="button"
+      className={classnames(
+        "mui-web-action-sheet-button",
+        action.style === AlertActionStyle.Cancel && "mui-web-action-sheet-cancel",
+        action.style === AlertActionStyle.Destructive && "mui-web-action-sheet-destructive",
+      )}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSelected(action.name);
+      }}
+    >
+      {action.title}
+    </button>
+  );
+
+  const hasHeader = !!title || !!message;
+  return (
+    <div
+      className={classnames("mui-web-action-sheet-screen-cover", isPopover && "mui-popover", shown && !isClosing && "mui-shown")}
+      onClick={(e) => {
+        // Only taps outside of the sheet dismiss it.
+        if (e.target === e.currentTarget)
+          dismiss();
+      }}
+      onKeyDown={handleKeyDown}
+    >
+      <div
+        className={classnames("mui-web-action-sheet", className)}
+        style={{ ...style, ...popoverPosition }}
+        ref={sheetRef}
+        role="dialog"
+        aria-modal={true}
+        aria-labelledby={title ? titleId : undefined}
+      >
+        <div className="mui-web-action-sheet-group">
+          {hasHeader && <div className="mui-web-action-sheet-header">
+            {title && <div className="mui-web-action-sheet-title" id={titleId}>{title}</div>}
+            {message && <div className="mui-web-action-sheet-message">{message}</div>}
+          </div>}
+          {otherActions.map(renderButton)}
+        </div>
+        {/* In a popover, tapping outside is how the user cancels, so the cancel action is not shown. */}
+        {cancelAction && !isPopover && <div className="mui-web-action-sheet-group">{renderButton(cancelAction)}</div>}
+      </div>
+    </div>
+  );
+}
+
+interface WebActionSheetRunnerProps {
+  sheetProps: WebActionSheetProps;
+  onChanged: BeUiEvent<WebActionSheetProps>;
+}
+
+/** Wrapper that re-renders the action sheet opened by {@link WebActionSheet.run} each time its properties change. */
+function WebActionSheetRunner(props: WebActionSheetRunnerProps) {
+  const [sheetProps, setSheetProps] = React.useState(props.sheetProps);
+  useBeUiEvent(setSheetProps, props.onChanged);
+  return <WebActionSheet {...sheetProps} />;
+}
+
+/**
+ * A convenience function to show a {@link WebActionSheet} using `UiFramework.dialogs.modal`. Like
+ * {@link presentActionSheet} in mobile-sdk-core, this calls the `onSelected` callback of the selected action.
+ * @public
+ * @param props The action sheet to show.
+ * @param sourceRect The screen rectangle of the component that is showing the action sheet.
+ * @returns The name of the selected action, or undefined if the action sheet was dismissed without selecting one.
+ */
+WebActionSheet.run = async (props: ActionSheetProps, sourceRect?: DOMRect): Promise<string | undefined> => {
+  const animationDuration = getCssVariableAsNumberOrDefault("--mui-web-action-sheet-animation-duration", .25) * 1000;
+  const onChanged = new BeUiEvent<WebActionSheetProps>();
+  const actionName = await new Promise<string | undefined>((resolve) => {
+    let id = "";
+    let isOpen = true;
+    const close = (name: string | undefined, delay: number) => {
+      if (!isOpen)
+        return;
+      isOpen = false;
+      MobileUi.onClose.removeListener(onClose);
+      onChanged.emit({ ...sheetProps, isClosing: true });
+      ModalDialogStack.close(id, delay);
+      resolve(name);
+    };
+    const onClose = () => {
+      // Mobile UI is closing, so close the action sheet immediately.
+      close(undefined, 0);
+    };
+    const { title, message, actions } = props;
+    const sheetProps: WebActionSheetProps = { title, message, actions, sourceRect, onSelected: (name) => close(name, animationDuration) };
+    MobileUi.onClose.addListener(onClose);
+    id = ModalDialogStack.open(<WebActionSheetRunner sheetProps={sheetProps} onChanged={onChanged} />);
+  });
+  const selected = props.actions.find((action) => action.name === actionName);
+  try {
+    // The action's callback might be asynchronous, and its errors have nowhere else to go.
+    await Promise.resolve(selected?.onSelected?.(selected));
+  } catch (error) {
+    Logger.logException("mobile-ui-react", error);
+  }
+  return actionName;
+};
+
+/**
+ * Class that holds the default way action sheets are presented by {@link presentMobileUiActionSheet} and
+ * `ActionSheetButton`.
+ * @public
+ */
+export class ActionSheetConfig {
+  /** The default presentation of action sheets, initially "auto". */
+  public static presentation: ActionSheetPresentation = "auto";
+
+  /**
+   * Whether or not the given presentation resolves to {@link WebActionSheet}.
+   * @param presentation - The presentation, default {@link ActionSheetConfig.presentation}.
+   */
+  public static usesWebActionSheet(presentation = this.presentation) {
+    return presentation === "web" || (presentation === "auto" && !ProcessDetector.isMobileAppFrontend);
+  }
+}
+
+/**
+ * Shows an action sheet using either the native UI or {@link WebActionSheet}, based on the given presentation.
+ * @public
+ * @param props The action sheet to show.
+ * @param sourceRect The screen rectangle of the component that is showing the action sheet.
+ * @param presentation How to present the action sheet, default {@link ActionSheetConfig.presentation}.
+ * @returns The name of the selected action, or undefined if the action sheet was dismissed without selecting one.
+ */
+export async function presentMobileUiActionSheet(props: ActionSheetProps, sourceRect: DOMRect, presentation = ActionSheetConfig.presentation) {
+  if (ActionSheetConfig.usesWebActionSheet(presentation))
+    return WebActionSheet.run(props, sourceRect);
+  return presentActionSheet(props, sourceRect);
+}
@@ -0,0 +1,107 @@
+/*---------------------------------------------------------------------------------------------
+* Copyright (c) Bentley Systems, Incorporated. All rights reserved.
+* See LICENSE.md in the project root for license terms and full copyright notice.
+*--------------------------------------------------------------------------------------------*/
+import { Id64, Id64Arg } from "@itwin/core-bentley";
+import { LowAndHighXY, LowAndHighXYZ, Point3d } from "@itwin/core-geometry";
+import { Easing } from "@itwin/core-common";
+import { MarginPercent, ScreenViewport, ViewState } from "@itwin/core-frontend";
+import { OcclusionManager } from "./OcclusionManager";
+import { InterpolateFrustumAnimator, PanTracker } from "./PanViewport";
+
+/**
+ * Options for {@link zoomToElementsInVisibleArea}, {@link zoomToVolumeInVisibleArea}, and {@link changeViewInVisibleArea}.
+ * @public
+ */
+export interface VisibleAreaZoomOptions {
+  /** The animation time in ms, default 500. Use 0 to change the view without animating. */
+  animationTime?: number;
+  /** The space in pixels to leave between the fitted contents and the edges of the visible area, default 0. */
+  margin?: number;
+}
+
+/**
+ * Changes the view of the given viewport, then scales and skews the resulting frustum so that the area that was
+ * changed to is displayed in the visible portion of the viewport. The change from the original frustum to the final
+ * frustum is animated.
+ * @param vp - The viewport to change.
+ * @param changeView - Callback that changes the view (without animating) to fit the given margins.
+ * @param fitWholeView - true if the whole changed view should be scaled down to fit into the visible area, false if
+ * changeView fits its contents into the margins.
+ * @param options - The zoom options.
+ */
+function changeViewToVisibleArea(vp: ScreenViewport, changeView: (marginPercent: MarginPercent) => void, fitWholeView: boolean, options?: VisibleAreaZoomOptions) {
+  const { animationTime = 500, margin = 0 } = options ?? {};
+  const vpRect = vp.getClientRect();
+  const visibleRect = OcclusionManager.getVisibleRect(vp);
+  // Never shrink the target area below a quarter of the viewport, since that would be unusable anyway.
+  const width = Math.max(visibleRect.width - 2 * margin, vpRect.width / 4);
+  const height = Math.max(visibleRect.height - 2 * margin, vpRect.height / 4);
+  // The pan offset, which uses the same convention as panViewportTo.
+  const x = Math.round((vpRect.left + vpRect.width / 2) - (visibleRect.left + visibleRect.width / 2));
+  const y = Math.round((vpRect.top + vpRect.height / 2) - (visibleRect.top + visibleRect.height / 2));
+
+  // Abort any ongoing animations before doing anything else so that the starting frustum is not mid-stream.
+  vp.setAnimator(undefined);
+  const startFrustum = vp.getFrustum().clone();
+  const horizontalMargin = fitWholeView ? 0 : (vpRect.width - width) / 2 / vpRect.width;
+  const verticalMargin = fitWholeView ? 0 : (vpRect.height - height) / 2 / vpRect.height;
+  changeView(new MarginPercent(horizontalMargin, verticalMargin, horizontalMargin, verticalMargin));
+
+  // The contents now fill a centered area that is either the whole viewport or the size of the target area. Scale and
+  // skew the frustum so that area lands on the visible area. Like panViewportTo, this works in view coordinates, which
+  // keeps the eye point of perspective views in place.
+  const scale = fitWholeView ? Math.max(vpRect.width / width, vpRect.height / height) : 1;
+  const center = new Point3d(vpRect.width / 2, vpRect.height / 2);
+  const frustum = vp.getFrustum().clone();
+  for (let i = 0; i < 8; ++i) {
+    const viewPoint = vp.worldToView(frustum.points[i]);
+    viewPoint.x = center.x + (viewPoint.x - center.x + x) * scale;
+    viewPoint.y = center.y + (viewPoint.y - center.y + y) * scale;
+    frustum.points[i] = vp.viewToWorld(viewPoint);
+  }
+  vp.setupViewFromFrustum(frustum);
+  PanTracker.get(vp).setOffset(x, y);
+  if (animationTime > 0)
+    vp.setAnimator(new InterpolateFrustumAnimator({ animationTime, easingFunction: Easing.Cubic.InOut }, vp, startFrustum, vp.getFrustum()));
+}
+
+/**
+ * Zoom the given viewport to fit the given volume into the visible portion of the viewport, excluding open panels, the
+ * tab bar, the navigation panel, and the safe areas.
+ * @param vp - The {@link ScreenViewport} to zoom.
+ * @param volume - The volume to fit.
+ * @param options - The zoom options.
+ * @public
+ */
+export function zoomToVolumeInVisibleArea(vp: ScreenViewport, volume: LowAndHighXYZ | LowAndHighXY, options?: VisibleAreaZoomOptions) {
+  changeViewToVisibleArea(vp, (marginPercent) => vp.zoomToVolume(volume, { marginPercent }), false, options);
+}
+
+/**
+ * Zoom the given viewport to fit the given elements into the visible portion of the viewport, excluding open panels,
+ * the tab bar, the navigation panel, and the safe areas.
+ * @param vp - The {@link ScreenViewport} to zoom.
+ * @param ids - The ids of the elements to fit.
+ * @param options - The zoom options.
+ * @public
+ */
+export async function zoomToElementsInVisibleArea(vp: ScreenViewport, ids: Id64Arg, options?: VisibleAreaZoomOptions) {
+  const placements = await vp.iModel.elements.getPlacements(Id64.iterable(ids), { type: vp.view.is3d() ? "3d" : "2d" });
+  if (placements.length === 0)
+    return;
+  changeViewToVisibleArea(vp, (marginPercent) => vp.zoomToPlacements(placements, { marginPercent }), false, options);
+}
+
+/**
+ * Change the given viewport to the given view (for example, a saved view), displaying everything that the view
+ * normally shows in the visible portion of the viewport, excluding open panels, the tab bar, the navigation panel,
+ * and the safe areas.
+ * @param vp - The {@link ScreenViewport} to change.
+ * @param view - The view to change to.
+ * @param options - The zoom options.
+ * @public
+ */
+export function changeViewInVisibleArea(vp: ScreenViewport, view: ViewState, options?: VisibleAreaZoomOptions) {
+  changeViewToVisibleArea(vp, () => vp.changeView(view), true, options);
+}